@@ -0,0 +1,89 @@
+/**
+ * エージェントレジストリ
+ * エージェントを名前で登録・検索し、GraphAIから利用できる形式に変換する
+ */
+
+import { AgentFunctionInfoDictionary, agentInfoWrapper } from 'graphai';
+import { Agent, AgentInfo } from './types';
+
+// 登録済みエージェント
+const agents = new Map<string, Agent>();
+
+const AgentRegistry = {
+  /**
+   * エージェントを登録する
+   * @param agent エージェント
+   */
+  register<I, O>(agent: Agent<I, O>): void {
+    if (agents.has(agent.name)) {
+      throw new Error(`Agent "${agent.name}" is already registered`);
+    }
+    
+    agents.set(agent.name, agent);
+  },
+  
+  /**
+   * 名前でエージェントを取得する
+   * @param name エージェント名
+   * @returns エージェント（未登録の場合はundefined）
+   */
+  get<I = any, O = any>(name: string): Agent<I, O> | undefined {
+    return agents.get(name) as Agent<I, O> | undefined;
+  },
+  
+  /**
+   * 名前でエージェントを取得する（未登録の場合はエラー）
+   * @param name エージェント名
+   * @returns エージェント
+   */
+  require<I = any, O = any>(name: string): Agent<I, O> {
+    const agent = this.get<I, O>(name);
+    
+    if (!agent) {
+      throw new Error(`Agent "${name}" is not registered`);
+    }
+    
+    return agent;
+  },
+  
+  /**
+   * 登録済みエージェントの一覧を取得する
+   * @returns エージェントのメタデータ一覧
+   */
+  listAgents(): AgentInfo[] {
+    return [...agents.values()].map(({ name, description, version, inputSchema, outputSchema }) => ({
+      name,
+      description,
+      version,
+      inputSchema,
+      outputSchema
+    }));
+  },
+  
+  /**
+   * 登録済みエージェントをGraphAIのエージェント辞書に変換する
+   * ノードのparamsとinputsをまとめてエージェントの入力として渡す
+   * @returns GraphAIのエージェント辞書
+   */
+  toGraphAIAgents(): AgentFunctionInfoDictionary {
+    const dictionary: AgentFunctionInfoDictionary = {};
+    
+    agents.forEach((agent, name) => {
+      const agentFunction = async ({ params, namedInputs }: { params: any; namedInputs: any }) => {
+        return await agent.process({ ...params, ...namedInputs });
+      };
+      
+      dictionary[name] = {
+        ...agentInfoWrapper(agentFunction),
+        name,
+        description: agent.description,
+        inputs: agent.inputSchema,
+        output: agent.outputSchema
+      };
+    });
+    
+    return dictionary;
+  }
+};
+
+export default AgentRegistry;
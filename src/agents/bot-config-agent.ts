@@ -0,0 +1,47 @@
+/**
+ * ボット設定エージェント
+ * フローの条件分岐に使うため、bot_settingsのbot_config（サーバー別・チャンネル別の上書きを含む）を返す
+ */
+
+import BotSettingsService from '../services/bot-settings-service';
+import { Agent } from './types';
+
+const BotConfigAgent: Agent<{ guildId?: string; channelId?: string }, Record<string, any>> = {
+  name: 'botConfigAgent',
+  description: 'ボット設定（bot_config）を取得します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      guildId: { type: 'string', description: 'サーバーID（DMの場合は省略）' },
+      channelId: { type: 'string', description: 'チャンネルID' }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      prefix: { type: 'string' },
+      allow_all_servers: { type: 'boolean' },
+      debug_mode: { type: 'boolean' },
+      tool_calling: { type: 'boolean' },
+      grounded_search: { type: 'boolean' },
+      search_fetch_pages: { type: 'boolean' },
+      search_enabled: { type: 'boolean' },
+      allowed_channels: { type: 'array', items: { type: 'string' } },
+      enabled_commands: { type: 'array', items: { type: 'string' } },
+      system_prompt: { type: 'string' },
+      language: { type: 'string' }
+    }
+  },
+
+  /**
+   * ボット設定を取得する
+   * @param input - サーバーID・チャンネルID
+   * @returns ボット設定
+   */
+  async process({ guildId, channelId }: { guildId?: string; channelId?: string }): Promise<Record<string, any>> {
+    return await BotSettingsService.getBotConfig(guildId, channelId);
+  }
+};
+
+export default BotConfigAgent;
@@ -1,96 +1,410 @@
 /**
  * コマンドパーサーエージェント
+ * コマンドレジストリの定義に従ってメッセージからコマンドと引数を解析する
  */
 
 import config from '../config';
+import LogService from '../services/log-service';
+import PermissionService, { PERMISSION_LEVEL_LABELS, PermissionLevel } from '../services/permission-service';
+import CommandRegistry, { CommandDefinition, CommandOption } from '../commands';
+import { Token, tokenize } from '../commands/tokenizer';
+import { SearchOptions } from './web-search-agent';
+import { Agent } from './types';
 
-interface ParsedCommand {
+export interface CommandParserInput {
+  message: string;
+  // 処理対象とするコマンドのID（含まれないコマンドは通常のチャットとして扱う）
+  commands?: string[];
+  // 送信者の権限レベル（省略時はeveryone）
+  permissionLevel?: PermissionLevel;
+  // 権限不足で実行を拒否した場合のログ用
+  userId?: string;
+  // サーバー・チャンネルの設定（省略時は環境変数のプレフィックスですべてのコマンドを使用できる）
+  prefix?: string;
+  enabledCommands?: string[] | null;
+  searchEnabled?: boolean;
+}
+
+export interface ParsedCommand {
   command: string;
   args: string;
+  // 解析に使ったプレフィックス（使い方の表示用）
+  prefix?: string;
+  // 定義に従って解析した引数とオプション
+  params?: Record<string, any>;
+  // コマンドを処理するエージェント名
+  handler?: string;
+  // 使い方の誤りや不明なコマンドの場合にユーザーに返すメッセージ
+  error?: string;
+  // 権限レベルが不足している場合に必要な権限レベル
+  requiredLevel?: PermissionLevel;
+  // フローの条件分岐用フラグ（コマンドIDをキーにtrueが入る。エージェントかエラーメッセージで応答する場合はrunCommandもtrue）
+  is?: Record<string, boolean>;
+  // 検索コマンドの場合のみ検索クエリと検索オプションが入る
+  searchQuery?: string;
+  searchOptions?: SearchOptions;
+  // askコマンドで --model を指定した場合のみモデル名が入る
+  chatModel?: string;
+}
+
+// サーバー・チャンネルの設定で無効にできないコマンドのID（設定を元に戻せなくなるのを防ぐ）
+const ALWAYS_ENABLED_COMMANDS = ['help', 'config'];
+
+/**
+ * オプションの値を定義に従って変換する
+ * @param option - オプション定義
+ * @param value - 入力された値
+ * @returns 変換した値（不正な値の場合はエラーメッセージ）
+ */
+function parseOptionValue(option: CommandOption, value: string | undefined): { value?: any; error?: string } {
+  if (option.type === 'boolean') {
+    return { value: true };
+  }
+
+  if (value === undefined || value === '') {
+    return { error: `オプション --${option.name} に値を指定してください` };
+  }
+
+  if (option.choices) {
+    const key = Object.keys(option.choices).find(choice => choice === value.toLowerCase());
+    // 解析後の値（例: freshnessのpw）の直接指定も受け付ける
+    const choice = key ? option.choices[key] : Object.values(option.choices).find(candidate => candidate === value);
+    return choice !== undefined ?
+      { value: choice } :
+      { error: `オプション --${option.name} には ${Object.keys(option.choices).join(' / ')} のいずれかを指定してください` };
+  }
+
+  if (option.type === 'number') {
+    const number = Number(value);
+    const range = option.min !== undefined && option.max !== undefined ? `（${option.min}〜${option.max}）` : '';
+    if (!Number.isInteger(number) ||
+        (option.min !== undefined && number < option.min) ||
+        (option.max !== undefined && number > option.max)) {
+      return { error: `オプション --${option.name} には整数${range}を指定してください` };
+    }
+    return { value: number };
+  }
+
+  if (option.pattern && !option.pattern.test(value)) {
+    return { error: `オプション --${option.name} の値「${value}」は正しくありません（${option.description}）` };
+  }
+
+  return { value };
 }
 
-const CommandParserAgent = {
+/**
+ * テキストから範囲を取り除く（取り除いた範囲の前の空白も詰める）
+ * @param text テキスト
+ * @param spans 取り除く範囲（先頭・末尾の次の文字の位置）
+ * @returns 範囲を取り除いたテキスト
+ */
+function removeSpans(text: string, spans: Array<[number, number]>): string {
+  return [...spans]
+    .sort((a, b) => b[0] - a[0])
+    .reduce((result, [start, end]) => {
+      let from = start;
+      while (from > 0 && /[ \t]/.test(result[from - 1])) {
+        from--;
+      }
+      return result.slice(0, from) + result.slice(end);
+    }, text);
+}
+
+/**
+ * コマンドの引数を定義に従って解析する
+ * 引用符で囲んだ部分は1つの引数になり、オプションは "--名前 値"・"--名前=値"・"--名前"（booleanの場合）の形式で指定する
+ * 単独の "--" より後はすべて引数として扱う
+ * restの引数は、入力されたテキストからオプションを取り除いたものをそのまま渡す（引用符や改行を残す）
+ * restの引数があるコマンドでは、定義にない "--" で始まる語は本文の一部として扱う
+ * @param command - コマンド定義
+ * @param text - コマンド名より後のテキスト
+ * @returns 解析した引数（不正な場合はエラーメッセージ）
+ */
+function parseArguments(command: CommandDefinition, text: string): { params?: Record<string, any>; error?: string } {
+  const params: Record<string, any> = {};
+  const positional: Token[] = [];
+  // テキストから取り除くオプションの範囲（restの引数の作成用）
+  const optionSpans: Array<[number, number]> = [];
+  const tokens = tokenize(text);
+  const hasRestArg = command.args.some(arg => arg.rest);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (!token.quoted && token.value === '--') {
+      optionSpans.push([token.start, token.end]);
+      positional.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    const match = !token.quoted ? token.value.match(/^--([^=]+)(?:=(.*))?$/) : null;
+
+    if (!match) {
+      positional.push(token);
+      continue;
+    }
+
+    const name = match[1].toLowerCase();
+    const option = command.options.find(candidate => candidate.name === name || candidate.aliases?.includes(name));
+
+    if (!option) {
+      if (hasRestArg) {
+        positional.push(token);
+        continue;
+      }
+      return { error: `不明なオプション --${match[1]} が指定されました` };
+    }
+
+    // "--名前=値" でなければ次のトークンを値とする（booleanは値を取らない）
+    let value = match[2];
+    let end = token.end;
+    if (value === undefined && option.type !== 'boolean') {
+      const next = tokens[i + 1];
+      if (next && (next.quoted || !next.value.startsWith('--'))) {
+        value = next.value;
+        end = next.end;
+        i++;
+      }
+    }
+    optionSpans.push([token.start, end]);
+
+    const parsed = parseOptionValue(option, value);
+    if (parsed.error) {
+      return { error: parsed.error };
+    }
+
+    params[option.param || option.name] = parsed.value;
+  }
+
+  // 位置引数を順に割り当て、restの引数には残りのテキストを渡す
+  const args = command.args.filter(arg => arg.type !== 'attachment');
+  args.forEach((arg, index) => {
+    const first = positional[index];
+    if (!first) {
+      return;
+    }
+
+    const value = arg.rest ?
+      removeSpans(text, optionSpans.filter(([start]) => start >= first.start)).slice(first.start).trim() :
+      first.value;
+    if (value) {
+      params[arg.name] = value;
+    }
+  });
+
+  const missing = args.find(arg => arg.required && !params[arg.name]);
+  if (missing) {
+    return { error: `${missing.name} を指定してください` };
+  }
+
+  return { params };
+}
+
+/**
+ * コマンドがサーバー・チャンネルの設定で使用できるかどうかを判定する
+ * @param command - コマンド定義
+ * @param input - サーバー・チャンネルの設定
+ * @returns 使用できる場合はtrue
+ */
+function isCommandEnabled(command: CommandDefinition, { enabledCommands, searchEnabled }: CommandParserInput): boolean {
+  if (ALWAYS_ENABLED_COMMANDS.includes(command.id)) {
+    return true;
+  }
+
+  if (command.id === 'webSearch' && searchEnabled === false) {
+    return false;
+  }
+
+  return !enabledCommands || enabledCommands.includes(command.name);
+}
+
+/**
+ * メッセージからコマンドを解析する
+ * @param input - ユーザーメッセージと送信者の権限・サーバー設定
+ * @returns パースされたコマンド
+ */
+function parseCommand(input: CommandParserInput): ParsedCommand {
+  const { message, permissionLevel = 'everyone' } = input;
+  const prefix = input.prefix || config.discord.prefix || '!';
+
+  // メッセージがコマンド形式か確認
+  if (!message.startsWith(prefix)) {
+    return {
+      command: 'chatDefault',
+      args: message
+    };
+  }
+
+  // プレフィックスを除去し、最初の空白でコマンドと引数を分離
+  const content = message.slice(prefix.length).trim();
+  const [name = ''] = content.split(/\s+/);
+  const restArgs = content.slice(name.length).trim();
+
+  // プレフィックスだけのメッセージはチャットとして処理
+  if (!name) {
+    return {
+      command: 'chatDefault',
+      args: message
+    };
+  }
+
+  const command = CommandRegistry.get(name);
+
+  // 登録されていないコマンドは近いコマンド名を提案する
+  if (!command) {
+    const suggestion = CommandRegistry.suggest(name);
+    return {
+      command: 'unknownCommand',
+      args: restArgs,
+      error: suggestion ?
+        `コマンド「${prefix}${name}」は存在しません。もしかして: \`${prefix}${suggestion}\`` :
+        `コマンド「${prefix}${name}」は存在しません。\`${prefix}help\` でコマンドの一覧を確認できます。`
+    };
+  }
+
+  // サーバー・チャンネルの設定で無効にされたコマンド
+  if (!isCommandEnabled(command, input)) {
+    return {
+      command: command.id,
+      args: restArgs,
+      error: `\`${prefix}${command.name}\` はこのチャンネルでは使用できません。`
+    };
+  }
+
+  // 権限レベルの確認
+  const requiredLevel = command.level || 'everyone';
+  if (!PermissionService.hasLevel(permissionLevel, requiredLevel)) {
+    return {
+      command: command.id,
+      args: restArgs,
+      error: `\`${prefix}${command.name}\` は${PERMISSION_LEVEL_LABELS[requiredLevel]}のみ実行できます（あなたの権限: ${PERMISSION_LEVEL_LABELS[permissionLevel]}）。`,
+      requiredLevel
+    };
+  }
+
+  const { params, error } = parseArguments(command, restArgs);
+  if (error) {
+    return {
+      command: command.id,
+      args: restArgs,
+      error: `${error}\n使い方: \`${CommandRegistry.formatUsage(command, prefix)}\``
+    };
+  }
+
+  // 指定されたオプションの権限レベルの確認
+  const restricted = command.options.find(option =>
+    option.level && params && (option.param || option.name) in params && !PermissionService.hasLevel(permissionLevel, option.level));
+  if (restricted?.level) {
+    return {
+      command: command.id,
+      args: restArgs,
+      error: `オプション --${restricted.name} は${PERMISSION_LEVEL_LABELS[restricted.level]}のみ指定できます（あなたの権限: ${PERMISSION_LEVEL_LABELS[permissionLevel]}）。`,
+      requiredLevel: restricted.level
+    };
+  }
+
+  return {
+    command: command.id,
+    args: restArgs,
+    params,
+    handler: command.handler
+  };
+}
+
+const CommandParserAgent: Agent<CommandParserInput, ParsedCommand> = {
+  name: 'commandParserAgent',
+  description: 'メッセージからコマンドと引数を解析します',
+  version: '1.4.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      message: { type: 'string', description: 'ユーザーメッセージ' },
+      commands: { type: 'array', items: { type: 'string' }, description: '処理対象とするコマンドのID' },
+      permissionLevel: { type: 'string', description: '送信者の権限レベル' },
+      userId: { type: 'string', description: '送信者のユーザーID' },
+      prefix: { type: 'string', description: 'コマンドのプレフィックス' },
+      enabledCommands: { type: 'array', items: { type: 'string' }, description: '使用できるコマンド名' },
+      searchEnabled: { type: 'boolean', description: 'ウェブ検索を使用できるかどうか' }
+    },
+    required: ['message']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      command: { type: 'string' },
+      args: { type: 'string' },
+      prefix: { type: 'string' },
+      params: { type: 'object' },
+      handler: { type: 'string' },
+      error: { type: 'string' },
+      requiredLevel: { type: 'string' },
+      is: { type: 'object' },
+      searchQuery: { type: 'string' },
+      searchOptions: { type: 'object' },
+      chatModel: { type: 'string' }
+    },
+    required: ['command', 'args']
+  },
+
   /**
    * メッセージからコマンドを解析する
-   * @param message - ユーザーメッセージ
+   * @param input - ユーザーメッセージと処理対象コマンド
    * @returns パースされたコマンド
    */
-  async process(message: string): Promise<ParsedCommand> {
+  async process(input: CommandParserInput): Promise<ParsedCommand> {
+    const { message, commands } = input;
+    let parsed: ParsedCommand;
+
     try {
-      const prefix = config.discord.prefix || '!';
-      
-      // メッセージがコマンド形式か確認
-      if (!message.startsWith(prefix)) {
-        return {
-          command: 'chatDefault',
-          args: message
-        };
-      }
-      
-      // プレフィックスを除去し、最初の空白でコマンドと引数を分離
-      const content = message.slice(prefix.length).trim();
-      const args = content.split(' ');
-      const command = args.shift()?.toLowerCase() || '';
-      const restArgs = args.join(' ');
-      
-      // コマンドに基づいて処理を分岐
-      switch (command) {
-        case 'search':
-        case 'find':
-        case 's':
-          // 検索コマンド
-          if (!restArgs) {
-            return {
-              command: 'chatDefault',
-              args: `検索したい内容を教えてください。使い方: ${prefix}search [検索キーワード]`
-            };
-          }
-          return {
-            command: 'webSearch',
-            args: restArgs
-          };
-          
-        case 'help':
-        case 'h':
-        case '?':
-          // ヘルプコマンド
-          return {
-            command: 'help',
-            args: restArgs
-          };
-          
-        case 'clear':
-        case 'reset':
-        case 'c':
-          // 会話履歴クリアコマンド
-          return {
-            command: 'clearChat',
-            args: ''
-          };
-          
-        case 'image':
-        case 'img':
-        case 'i':
-          // 画像生成コマンド（将来対応予定）
-          return {
-            command: 'generateImage',
-            args: restArgs
-          };
-          
-        default:
-          // 認識できないコマンドはチャットとして処理
-          return {
-            command: 'chatDefault',
-            args: message
-          };
-      }
+      parsed = parseCommand(input);
     } catch (error) {
       console.error('Command parsing error:', error);
-      return {
+      parsed = {
         command: 'chatDefault',
         args: message
       };
     }
+
+    // 権限不足による拒否を記録する
+    if (parsed.requiredLevel) {
+      await LogService.warn('security', 'コマンドの実行を権限不足により拒否しました', {
+        userId: input.userId,
+        command: parsed.command,
+        permissionLevel: input.permissionLevel || 'everyone',
+        requiredLevel: parsed.requiredLevel
+      });
+    }
+
+    // 処理対象外のコマンドは通常のチャットとして扱う
+    if (commands && !parsed.error && !commands.includes(parsed.command)) {
+      parsed = {
+        command: 'chatDefault',
+        args: message
+      };
+    }
+
+    // 検索コマンドの引数はクエリと検索オプションに分ける
+    let searchQuery: string | undefined;
+    let searchOptions: SearchOptions | undefined;
+    if (parsed.command === 'webSearch' && !parsed.error && parsed.params) {
+      ({ query: searchQuery, ...searchOptions } = parsed.params);
+    }
+
+    // askコマンドは質問だけをチャットに渡し、モデルの指定は分ける
+    let chatModel: string | undefined;
+    if (parsed.command === 'chatDefault' && parsed.params) {
+      chatModel = parsed.params.model;
+      parsed = { ...parsed, args: parsed.params.question };
+    }
+    
+    return {
+      ...parsed,
+      prefix: input.prefix || config.discord.prefix || '!',
+      is: { [parsed.command]: true, runCommand: !!(parsed.handler || parsed.error) },
+      searchQuery,
+      searchOptions,
+      chatModel
+    };
   }
 };
 
@@ -0,0 +1,73 @@
+/**
+ * コマンド実行エージェント
+ * 解析したコマンドを、コマンド定義で指定されたエージェントに引数を渡して実行する
+ */
+
+import AgentRegistry from './agent-registry';
+import { ParsedCommand } from './command-parser-agent';
+import { ConversationScope } from '../services/conversation-service';
+import { Agent, DiscordOutput } from './types';
+
+export interface CommandRunnerInput {
+  parsedCommand: ParsedCommand;
+  userId: string;
+  username?: string;
+  guildId?: string;
+  channelId?: string;
+  // 会話履歴の範囲（履歴を扱うコマンド用）
+  conversation?: ConversationScope;
+}
+
+const CommandRunnerAgent: Agent<CommandRunnerInput, DiscordOutput> = {
+  name: 'commandRunnerAgent',
+  description: '解析したコマンドを定義されたエージェントで実行します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      parsedCommand: { type: 'object', description: 'commandParserAgentの解析結果' },
+      userId: { type: 'string' },
+      username: { type: 'string' },
+      guildId: { type: 'string' },
+      channelId: { type: 'string' },
+      conversation: { type: 'object', description: 'conversationScopeAgentの会話履歴の範囲' }
+    },
+    required: ['parsedCommand', 'userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+      files: { type: 'array' },
+      embeds: { type: 'array' },
+      components: { type: 'array' }
+    },
+    required: ['text']
+  },
+
+  /**
+   * コマンドを実行する
+   * @param input - 解析したコマンドと送信者の情報
+   * @returns 応答
+   */
+  async process({ parsedCommand, userId, username, guildId, channelId, conversation }: CommandRunnerInput): Promise<DiscordOutput> {
+    // 使い方の誤りなどはそのまま返す
+    if (parsedCommand.error) {
+      return { text: parsedCommand.error };
+    }
+
+    if (!parsedCommand.handler) {
+      return { text: `コマンド「${parsedCommand.command}」を処理するエージェントが定義されていません。` };
+    }
+
+    try {
+      return await AgentRegistry.require(parsedCommand.handler)
+        .process({ ...parsedCommand.params, userId, username, guildId, channelId, conversation, prefix: parsedCommand.prefix });
+    } catch (error: any) {
+      console.error(`Command execution error (${parsedCommand.command}):`, error);
+      return { text: `コマンドの実行中にエラーが発生しました: ${error.message || error}` };
+    }
+  }
+};
+
+export default CommandRunnerAgent;
@@ -0,0 +1,239 @@
+/**
+ * 設定エージェント
+ * !config コマンドでサーバー別・チャンネル別のボット設定を表示・変更する
+ */
+
+import BotSettingsService, { ConfigScope } from '../services/bot-settings-service';
+import CommandRegistry from '../commands';
+import { findLlmProvider, listLlmProviders } from '../services/llm-providers';
+import { Agent, DiscordOutput } from './types';
+
+export interface ConfigInput {
+  // show（省略時）・set・reset
+  action?: string;
+  key?: string;
+  value?: string;
+  // trueの場合はサーバー全体ではなく実行したチャンネルの設定を変更する
+  channel?: boolean;
+  guildId?: string;
+  channelId?: string;
+  prefix?: string;
+}
+
+// !config で変更できる設定項目
+interface ConfigField {
+  description: string;
+  type: 'string' | 'boolean' | 'channels' | 'roles' | 'users' | 'commands';
+  // チャンネル別に設定できるかどうか
+  channelScope: boolean;
+  // 指定できる値（stringの場合のみ）
+  choices?: string[];
+}
+
+const CONFIG_FIELDS: Record<string, ConfigField> = {
+  prefix: { description: 'コマンドのプレフィックス', type: 'string', channelScope: true },
+  allowed_channels: { description: '応答するチャンネル（空の場合はすべて）', type: 'channels', channelScope: false },
+  enabled_commands: { description: '使用できるコマンド（空の場合はすべて）', type: 'commands', channelScope: true },
+  system_prompt: { description: 'システムプロンプト', type: 'string', channelScope: true },
+  search_enabled: { description: 'ウェブ検索の使用', type: 'boolean', channelScope: true },
+  grounded_search: { description: '検索結果をもとに回答を作成する', type: 'boolean', channelScope: true },
+  language: { description: '応答の言語（例: English）', type: 'string', channelScope: true },
+  admin_roles: { description: 'サーバー管理者として扱うロール', type: 'roles', channelScope: false },
+  trusted_roles: { description: '信頼されたユーザーとして扱うロール', type: 'roles', channelScope: false },
+  trusted_users: { description: '信頼されたユーザー', type: 'users', channelScope: false },
+  auto_memory: { description: '会話からユーザーの事実や好みを自動的に記憶する', type: 'boolean', channelScope: true },
+  model: { description: '会話に使うモデル（例: gpt-4o-mini、未設定の場合は標準のモデル）', type: 'string', channelScope: true },
+  conversation_scope: {
+    description: '会話履歴の範囲（user: ユーザーごと, channel: チャンネルで共有, user_channel: チャンネルごとのユーザーごと）',
+    type: 'string',
+    channelScope: false,
+    choices: ['user', 'channel', 'user_channel']
+  }
+};
+
+// メンションまたはIDで指定する設定項目の形式（メンションの形式・表示）
+const MENTION_FORMATS: Record<string, { pattern: RegExp; label: string; format: (id: string) => string }> = {
+  channels: { pattern: /^<#(\d+)>$/, label: '#チャンネル名', format: id => `<#${id}>` },
+  roles: { pattern: /^<@&(\d+)>$/, label: '@ロール', format: id => `<@&${id}>` },
+  users: { pattern: /^<@!?(\d+)>$/, label: '@ユーザー', format: id => `<@${id}>` }
+};
+
+// プレフィックスの最大文字数
+const MAX_PREFIX_LENGTH = 5;
+
+/**
+ * 入力された値を設定項目の型に合わせて変換する
+ * @param key 設定項目
+ * @param field 設定項目の定義
+ * @param value 入力された値
+ * @returns 変換した値（不正な値の場合はエラーメッセージ）
+ */
+function parseConfigValue(key: string, field: ConfigField, value: string): { value?: any; error?: string } {
+  const items = value.split(/[\s,]+/).filter(item => item && item !== 'none');
+
+  switch (field.type) {
+    case 'boolean':
+      if (['on', 'true', 'yes'].includes(value.toLowerCase())) return { value: true };
+      if (['off', 'false', 'no'].includes(value.toLowerCase())) return { value: false };
+      return { error: `${key} には on または off を指定してください` };
+
+    case 'channels':
+    case 'roles':
+    case 'users': {
+      // メンション（<#ID>・<@&ID>・<@ID>）またはIDで指定する
+      const mention = MENTION_FORMATS[field.type];
+      const ids = items.map(item => item.replace(mention.pattern, '$1'));
+      const invalid = ids.find(id => !/^\d+$/.test(id));
+      return invalid ?
+        { error: `「${invalid}」は正しくありません（${mention.label} またはIDで指定してください）` } :
+        { value: ids };
+    }
+
+    case 'commands': {
+      // help・configは設定にかかわらず常に使用できる
+      const names = items.map(item => CommandRegistry.get(item)?.name || item);
+      const unknown = names.find(name => !CommandRegistry.get(name));
+      return unknown ?
+        { error: `コマンド「${unknown}」は存在しません` } :
+        { value: names.length > 0 ? [...new Set(names)] : null };
+    }
+
+    default:
+      if (field.choices && !field.choices.includes(value)) {
+        return { error: `${key} には ${field.choices.join(' / ')} のいずれかを指定してください` };
+      }
+      if (key === 'prefix' && (/\s/.test(value) || value.length > MAX_PREFIX_LENGTH)) {
+        return { error: `プレフィックスは空白を含まない${MAX_PREFIX_LENGTH}文字以内で指定してください` };
+      }
+      if (key === 'model' && !findLlmProvider(value)) {
+        return { error: `モデル「${value}」は利用できません（モデル名または ${listLlmProviders().join(' / ')} を指定してください）` };
+      }
+      return { value };
+  }
+}
+
+/**
+ * 設定値を表示用の文字列にする
+ * @param field 設定項目の定義
+ * @param value 設定値
+ * @returns 表示用の文字列
+ */
+function formatConfigValue(field: ConfigField, value: any): string {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+    return '（未設定）';
+  }
+
+  if (field.type === 'boolean') {
+    return value ? 'on' : 'off';
+  }
+
+  if (field.type in MENTION_FORMATS) {
+    return value.map(MENTION_FORMATS[field.type].format).join(' ');
+  }
+
+  if (field.type === 'commands') {
+    return value.map((name: string) => `\`${name}\``).join(' ');
+  }
+
+  const text = String(value);
+  return `\`${text.length > 50 ? `${text.slice(0, 50)}…` : text}\``;
+}
+
+const ConfigAgent: Agent<ConfigInput, DiscordOutput> = {
+  name: 'configAgent',
+  description: 'サーバー別・チャンネル別のボット設定を表示・変更します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', description: 'show・set・reset' },
+      key: { type: 'string', description: '設定項目' },
+      value: { type: 'string', description: '設定値' },
+      channel: { type: 'boolean', description: 'チャンネル別の設定を変更する' },
+      guildId: { type: 'string' },
+      channelId: { type: 'string' },
+      prefix: { type: 'string' }
+    }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text']
+  },
+
+  /**
+   * 設定を表示・変更する
+   * @param input - 操作・設定項目・設定値と実行場所
+   * @returns 応答
+   */
+  async process({ action = 'show', key, value, channel, guildId, channelId, prefix = '!' }: ConfigInput): Promise<DiscordOutput> {
+    if (!guildId) {
+      return { text: '設定はサーバー内でのみ変更できます。' };
+    }
+
+    const keys = Object.keys(CONFIG_FIELDS).map(name => `\`${name}\``).join('・');
+
+    try {
+      if (action === 'show') {
+        const current = await BotSettingsService.getBotConfig(guildId, channelId);
+        const channelConfig = channelId ? await BotSettingsService.getScopedConfig({ type: 'channel', id: channelId }) : {};
+
+        const lines = Object.entries(CONFIG_FIELDS).map(([name, field]) => {
+          const source = name in channelConfig ? '（このチャンネル）' : '';
+          return `- \`${name}\`: ${formatConfigValue(field, current[name])}${source} - ${field.description}`;
+        });
+
+        return {
+          text: [
+            '**現在の設定:**',
+            ...lines,
+            '',
+            `変更: \`${prefix}config set <項目> <値> [--channel]\`　元に戻す: \`${prefix}config reset <項目> [--channel]\``
+          ].join('\n')
+        };
+      }
+
+      if (action !== 'set' && action !== 'reset') {
+        return { text: '操作には show・set・reset のいずれかを指定してください。' };
+      }
+
+      const field = key ? CONFIG_FIELDS[key] : undefined;
+      if (!key || !field) {
+        return { text: `設定項目には ${keys} のいずれかを指定してください。` };
+      }
+
+      if (channel && !field.channelScope) {
+        return { text: `\`${key}\` はサーバー全体でのみ設定できます。` };
+      }
+
+      const scope: ConfigScope = channel && channelId ? { type: 'channel', id: channelId } : { type: 'guild', id: guildId };
+      const scopeName = scope.type === 'channel' ? 'このチャンネル' : 'このサーバー';
+
+      if (action === 'reset') {
+        const reset = await BotSettingsService.resetScopedConfig(scope, key);
+        return { text: reset ? `${scopeName}の \`${key}\` を元に戻しました。` : '設定の保存に失敗しました。' };
+      }
+
+      if (value === undefined) {
+        return { text: `\`${key}\` に設定する値を指定してください。` };
+      }
+
+      const parsed = parseConfigValue(key, field, value);
+      if (parsed.error) {
+        return { text: parsed.error };
+      }
+
+      const updated = await BotSettingsService.updateScopedConfig(scope, { [key]: parsed.value });
+      return {
+        text: updated ?
+          `${scopeName}の \`${key}\` を ${formatConfigValue(field, parsed.value)} に設定しました。` :
+          '設定の保存に失敗しました。'
+      };
+    } catch (error: any) {
+      console.error('Config command error:', error);
+      return { text: `設定の変更中にエラーが発生しました: ${error.message || error}` };
+    }
+  }
+};
+
+export default ConfigAgent;
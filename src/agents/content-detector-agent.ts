@@ -3,18 +3,51 @@
  * メッセージの種類を検出し、適切な処理を選択するためのエージェント
  */
 
-interface DetectionResult {
+import AttachmentService, { AttachmentInfo } from '../services/attachment-service';
+import { Agent } from './types';
+
+export interface DetectionResult {
   hasImage: boolean;
   isWebSearchQuery: boolean;
   searchProbability?: number;
+  // 検索クエリと判定された場合のみメッセージ内容が入る
+  searchQuery?: string;
 }
 
-interface MessageContent {
+export interface MessageContent {
   content: string;
-  attachments?: any[];
+  attachments?: AttachmentInfo[];
+  // trueの場合は検索意図の検出を行わない（モデルのツール呼び出しに任せる場合）
+  skipSearchDetection?: boolean;
+  // falseの場合はサーバー・チャンネルの設定で検索が無効
+  searchEnabled?: boolean;
 }
 
-const ContentDetectorAgent = {
+const ContentDetectorAgent: Agent<MessageContent, DetectionResult> = {
+  name: 'contentDetectorAgent',
+  description: 'メッセージの画像添付やウェブ検索の意図を検出します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      content: { type: 'string', description: 'メッセージ本文' },
+      attachments: { type: 'array', description: '添付ファイル' },
+      skipSearchDetection: { type: 'boolean', description: '検索意図の検出を行わない' },
+      searchEnabled: { type: 'boolean', description: 'ウェブ検索を使用できるかどうか' }
+    },
+    required: ['content']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      hasImage: { type: 'boolean' },
+      isWebSearchQuery: { type: 'boolean' },
+      searchProbability: { type: 'number' },
+      searchQuery: { type: 'string' }
+    },
+    required: ['hasImage', 'isWebSearchQuery']
+  },
+
   /**
    * メッセージの種類を検出する
    * @param message - ユーザーメッセージ
@@ -28,14 +61,12 @@ const ContentDetectorAgent = {
       };
       
       // 画像添付ファイルの検出
-      if (message.attachments && message.attachments.length > 0) {
-        const imageAttachments = message.attachments.filter((attachment: any) => {
-          const url = attachment.url || '';
-          const isImage = url.match(/\.(jpeg|jpg|gif|png|webp)$/i);
-          return !!isImage;
-        });
-        
-        result.hasImage = imageAttachments.length > 0;
+      const attachments = message.attachments || [];
+      result.hasImage = attachments.some(attachment => AttachmentService.isImage(attachment));
+      
+      // 画像やPDFが添付されている場合は添付ファイルについての質問として扱う
+      if (message.skipSearchDetection || message.searchEnabled === false || attachments.some(attachment => AttachmentService.isSupported(attachment))) {
+        return result;
       }
       
       // Web検索クエリの検出
@@ -52,6 +83,10 @@ const ContentDetectorAgent = {
       result.searchProbability = searchProbability;
       result.isWebSearchQuery = searchProbability > 0.6;
       
+      if (result.isWebSearchQuery) {
+        result.searchQuery = content;
+      }
+      
       return result;
     } catch (error) {
       console.error('Content detection error:', error);
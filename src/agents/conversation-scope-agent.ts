@@ -0,0 +1,48 @@
+/**
+ * 会話範囲エージェント
+ * 送信元（DM・チャンネル・スレッド）とサーバー設定から、会話履歴を保存する範囲を決める
+ */
+
+import ConversationService, { ConversationScope, ConversationScopeMode, ConversationSubject } from '../services/conversation-service';
+import { Agent } from './types';
+
+export interface ConversationScopeInput extends ConversationSubject {
+  // サーバー設定のconversation_scope
+  mode?: ConversationScopeMode;
+}
+
+const ConversationScopeAgent: Agent<ConversationScopeInput, ConversationScope> = {
+  name: 'conversationScopeAgent',
+  description: '会話履歴の範囲（DM・チャンネル・スレッド・チャンネルごとのユーザー）を決めます',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      userId: { type: 'string' },
+      guildId: { type: 'string', description: 'サーバーID（DMの場合は省略）' },
+      channelId: { type: 'string', description: 'チャンネルまたはスレッドのID' },
+      isBotThread: { type: 'boolean', description: 'ボットが開始したスレッドかどうか' },
+      mode: { type: 'string', enum: ['user', 'channel', 'user_channel'] }
+    },
+    required: ['userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      key: { type: 'string' },
+      shared: { type: 'boolean' }
+    },
+    required: ['key', 'shared']
+  },
+
+  /**
+   * 会話履歴の範囲を決める
+   * @param input - 送信元の情報とサーバー設定
+   * @returns 会話履歴の範囲
+   */
+  async process({ mode, ...subject }: ConversationScopeInput): Promise<ConversationScope> {
+    return ConversationService.getScope(subject, mode);
+  }
+};
+
+export default ConversationScopeAgent;
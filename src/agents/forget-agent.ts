@@ -0,0 +1,63 @@
+/**
+ * 記憶削除エージェント
+ * !forget コマンドでユーザーの記憶を番号で指定して、またはすべて削除する（省略した場合は一覧を表示する）
+ */
+
+import UserMemoryService from '../services/user-memory-service';
+import { formatMemoryList } from './remember-agent';
+import { Agent, DiscordOutput } from './types';
+
+export interface ForgetInput {
+  // 記憶の番号（!remember の一覧の番号）または all
+  target?: string;
+  userId: string;
+  prefix?: string;
+}
+
+const ForgetAgent: Agent<ForgetInput, DiscordOutput> = {
+  name: 'forgetAgent',
+  description: 'ユーザーの記憶を削除します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      target: { type: 'string', description: '記憶の番号または all' },
+      userId: { type: 'string' },
+      prefix: { type: 'string' }
+    },
+    required: ['userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text']
+  },
+
+  /**
+   * 記憶を削除する（番号を省略した場合は一覧を表示する）
+   * @param input - 削除する記憶の番号と送信者
+   * @returns 応答
+   */
+  async process({ target, userId, prefix = '!' }: ForgetInput): Promise<DiscordOutput> {
+    const memories = await UserMemoryService.listMemories(userId);
+
+    if (!target || memories.length === 0) {
+      return { text: formatMemoryList(memories, prefix) };
+    }
+
+    if (target === 'all') {
+      const cleared = await UserMemoryService.clearMemories(userId);
+      return { text: cleared ? `あなたについての記憶をすべて削除しました（${memories.length}件）。` : '記憶の削除に失敗しました。' };
+    }
+
+    const index = Number(target) - 1;
+    if (!Number.isInteger(index) || !memories[index]) {
+      return { text: `番号は 1〜${memories.length} または all で指定してください（\`${prefix}remember\` で一覧を表示できます）。` };
+    }
+
+    const removed = await UserMemoryService.removeMemory(userId, memories[index].id);
+    return { text: removed ? `忘れました: ${memories[index].content}` : '記憶の削除に失敗しました。' };
+  }
+};
+
+export default ForgetAgent;
@@ -0,0 +1,172 @@
+/**
+ * 検索結果に基づく回答生成エージェント
+ * 検索結果（必要に応じてページ本文）をLLMに渡し、出典番号付きの文章で回答させる
+ */
+
+import fetch from 'node-fetch';
+import LlmCallService from '../services/llm-call-service';
+import { resolveLlmModel } from '../services/llm-providers';
+import SearchResultFormatterAgent, { FormattedText } from './search-result-formatter-agent';
+import { SearchResult } from './web-search-agent';
+import { Agent } from './types';
+
+export interface GroundedAnswerInput {
+  question: string;
+  searchResults: SearchResult;
+  // trueの場合は上位の検索結果のページ本文も取得してLLMに渡す
+  fetchPages?: boolean;
+  // コマンドの --model で指定したモデル名またはプロバイダー名
+  model?: string | null;
+  // サーバー・チャンネルの設定のモデル（modelがない場合に使う）
+  defaultModel?: string | null;
+  // api_logsの記録用
+  userId?: string;
+}
+
+// ページ本文を取得する検索結果の件数
+const MAX_FETCHED_PAGES = 3;
+
+// ページ本文の最大文字数
+const MAX_PAGE_TEXT_LENGTH = 2000;
+
+// ページ取得のタイムアウト（ミリ秒、本文の読み込みを含む）
+const PAGE_FETCH_TIMEOUT = 5000;
+
+// ページの読み込む最大バイト数（これを超える部分は読まない）
+const MAX_PAGE_BYTES = 512 * 1024;
+
+// 本文を取得するページの形式
+const PAGE_CONTENT_TYPES = ['text/html', 'text/plain'];
+
+/**
+ * ページ本文をテキストとして取得する
+ * HTMLとテキストのページのみ、先頭からMAX_PAGE_BYTESまでを読み込む
+ * @param url ページURL
+ * @param timeout タイムアウト（ミリ秒）
+ * @returns 本文テキスト（取得できない場合は空文字）
+ */
+export async function fetchPageText(url: string, timeout: number = PAGE_FETCH_TIMEOUT): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'Accept': PAGE_CONTENT_TYPES.join(', ') },
+      signal: controller.signal
+    });
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    if (!response.ok || !PAGE_CONTENT_TYPES.includes(contentType)) {
+      return '';
+    }
+
+    // 上限に達したら残りは読まずに接続を閉じる
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response.body) {
+      chunks.push(chunk as Buffer);
+      size += chunk.length;
+      if (size >= MAX_PAGE_BYTES) {
+        controller.abort();
+        break;
+      }
+    }
+
+    // 途中で切れたマルチバイト文字は置換文字になる
+    const html = Buffer.concat(chunks).subarray(0, MAX_PAGE_BYTES).toString('utf8');
+
+    // スクリプト・スタイル・タグを取り除いて本文だけにする
+    return html
+      .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, MAX_PAGE_TEXT_LENGTH);
+  } catch (error) {
+    console.warn(`Failed to fetch page text: ${url}`, error);
+    return '';
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const GroundedAnswerAgent: Agent<GroundedAnswerInput, FormattedText> = {
+  name: 'groundedAnswerAgent',
+  description: '検索結果をもとにLLMが出典番号付きの回答を作成します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      question: { type: 'string', description: 'ユーザーの質問' },
+      searchResults: { type: 'object', description: 'webSearchAgentの検索結果' },
+      fetchPages: { type: 'boolean', description: 'ページ本文も取得するかどうか' },
+      model: { type: 'string', description: '使用するモデル名またはプロバイダー名' },
+      defaultModel: { type: 'string', description: 'サーバー・チャンネルの設定のモデル' },
+      userId: { type: 'string', description: 'ユーザーID' }
+    },
+    required: ['question', 'searchResults']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' }
+    },
+    required: ['text']
+  },
+
+  /**
+   * 検索結果をもとに回答を作成する
+   * @param input - 質問と検索結果
+   * @returns 出典番号付きの回答
+   */
+  async process({ question, searchResults, fetchPages = false, model, defaultModel, userId }: GroundedAnswerInput): Promise<FormattedText> {
+    const results = searchResults.web?.results || [];
+    const selection = await resolveLlmModel(model || defaultModel);
+
+    // エラーや結果なし、モデルが利用できない場合は通常のフォーマットで返す
+    if (searchResults.error || results.length === 0 || !selection) {
+      return await SearchResultFormatterAgent.process({ searchResults });
+    }
+
+    try {
+      // 出典ごとの資料を作成
+      const sources = await Promise.all(results.map(async (result, index) => {
+        const pageText = fetchPages && index < MAX_FETCHED_PAGES ? await fetchPageText(result.url) : '';
+        return [
+          `[${index + 1}] ${result.title}`,
+          `URL: ${result.url}`,
+          `概要: ${result.description || '説明なし'}`,
+          pageText ? `本文抜粋: ${pageText}` : ''
+        ].filter(Boolean).join('\n');
+      }));
+
+      const prompt = `以下の検索結果だけを根拠に、ユーザーの質問に日本語の文章で簡潔に回答してください。
+- 根拠にした文の末尾に [1] のような出典番号を付けてください
+- 検索結果から分からないことは推測せず、分からないと伝えてください
+- 回答の最後に「出典」として、使った番号と対応するURLを「[1] <URL>」の形式で列挙してください
+
+質問: ${question}
+
+検索結果:
+${sources.join('\n\n')}`;
+
+      // 使用量制限に達している場合は検索結果をそのまま返す
+      const response = await LlmCallService.chat(selection, {
+        model: selection.model,
+        messages: [{ role: 'user', content: prompt }]
+      }, { userId, requestType: 'grounded_answer', content: prompt });
+      if (!response?.text) {
+        return await SearchResultFormatterAgent.process({ searchResults });
+      }
+
+      return { text: response.text };
+    } catch (error: any) {
+      console.error('Grounded answer error:', error);
+      // 回答生成に失敗した場合は検索結果をそのまま返す
+      return await SearchResultFormatterAgent.process({ searchResults });
+    }
+  }
+};
+
+export default GroundedAnswerAgent;
@@ -0,0 +1,103 @@
+/**
+ * サーバーアクセス管理エージェント
+ * !guild コマンドでボットを利用できるサーバーの許可リスト・拒否リスト（guild_access）を表示・変更する
+ */
+
+import GuildAccessService from '../services/guild-access-service';
+import LogService from '../services/log-service';
+import { Agent, DiscordOutput } from './types';
+
+export interface GuildAccessInput {
+  // show（省略時）・allow・deny・remove
+  action?: string;
+  // 対象のサーバーID（省略時は実行したサーバー）
+  target?: string;
+  // allow・denyで登録するメモ
+  note?: string;
+  userId: string;
+  guildId?: string;
+  prefix?: string;
+}
+
+// 登録状態の表示
+const STATUS_LABELS: Record<string, string> = {
+  allow: '許可リスト',
+  deny: '拒否リスト',
+  unknown: '取得できませんでした'
+};
+
+const GuildAccessAgent: Agent<GuildAccessInput, DiscordOutput> = {
+  name: 'guildAccessAgent',
+  description: 'ボットを利用できるサーバーの許可リスト・拒否リストを表示・変更します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', description: 'show・allow・deny・remove' },
+      target: { type: 'string', description: '対象のサーバーID' },
+      note: { type: 'string', description: '登録するメモ' },
+      userId: { type: 'string' },
+      guildId: { type: 'string' },
+      prefix: { type: 'string' }
+    },
+    required: ['userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text']
+  },
+
+  /**
+   * サーバーの登録状態を表示・変更する
+   * @param input - 操作・対象のサーバーIDと送信者
+   * @returns 応答
+   */
+  async process({ action = 'show', target, note, userId, guildId, prefix = '!' }: GuildAccessInput): Promise<DiscordOutput> {
+    if (!['show', 'allow', 'deny', 'remove'].includes(action)) {
+      return { text: '操作には show・allow・deny・remove のいずれかを指定してください。' };
+    }
+
+    const id = target || guildId;
+    if (!id) {
+      return { text: `サーバーIDを指定してください（例: \`${prefix}guild ${action} 123456789012345678\`）。` };
+    }
+    if (!/^\d+$/.test(id)) {
+      return { text: `「${id}」は正しいサーバーIDではありません。` };
+    }
+
+    if (action === 'show') {
+      const status = await GuildAccessService.getGuildAccess(id);
+      const decision = await GuildAccessService.checkGuild(id);
+      return {
+        text: [
+          `**サーバー ${id}**`,
+          `登録: ${status ? STATUS_LABELS[status] : '（未登録）'}`,
+          `判定: ${decision.allowed ? '利用できます' : '利用できません'}（${decision.reason}）`
+        ].join('\n')
+      };
+    }
+
+    if (action === 'remove') {
+      const removed = await GuildAccessService.removeGuildAccess(id);
+      if (removed) {
+        await LogService.info('security', 'サーバーの登録を削除しました', { guildId: id, userId });
+      }
+      return { text: removed ? `サーバー ${id} の登録を削除しました。` : '登録の削除に失敗しました。' };
+    }
+
+    const saved = await GuildAccessService.setGuildAccess(id, action === 'allow' ? 'allow' : 'deny', note);
+    if (!saved) {
+      return { text: '登録に失敗しました。' };
+    }
+
+    await LogService.info('security', 'サーバーの登録を変更しました', { guildId: id, status: action, note, userId });
+    return {
+      text: action === 'allow' ?
+        `サーバー ${id} を許可リストに登録しました。` :
+        `サーバー ${id} を拒否リストに登録しました（次にそのサーバーでメッセージを受け取ったときに退出します）。`
+    };
+  }
+};
+
+export default GuildAccessAgent;
@@ -0,0 +1,99 @@
+/**
+ * 画像生成エージェント
+ * 設定された画像生成プロバイダーで画像を作成し、Discordに添付するファイルとして返す
+ */
+
+import config from '../config';
+import ApiUsageService from '../services/api-usage-service';
+import BotSettingsService from '../services/bot-settings-service';
+import { getImageProvider, ImageGenerationOptions } from '../services/image-providers';
+import { Agent, OutputFile } from './types';
+
+export interface ImageGenerationResult {
+  text: string;
+  files?: OutputFile[];
+}
+
+// MIMEタイプごとの拡張子
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+const ImageGenerationAgent: Agent<ImageGenerationOptions, ImageGenerationResult> = {
+  name: 'imageGenerationAgent',
+  description: 'プロンプトから画像を生成します（日次の使用量制限あり）',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      prompt: { type: 'string', description: '生成する画像の説明' },
+      style: { type: 'string', description: 'スタイル（プロバイダーごとに異なる）' },
+      size: { type: 'string', description: '画像サイズ（例: 1024x1024）' }
+    },
+    required: ['prompt']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+      files: { type: 'array' }
+    },
+    required: ['text']
+  },
+
+  /**
+   * 画像を生成する
+   * @param input - プロンプトと生成オプション
+   * @returns 結果メッセージと画像ファイル
+   */
+  async process({ prompt, style, size }: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    try {
+      const provider = getImageProvider();
+
+      if (!prompt) {
+        return { text: `生成したい画像の説明を入力してください。使い方: ${config.discord.prefix || '!'}image [説明] --style [スタイル] --size [サイズ]` };
+      }
+
+      // オプションの確認
+      if (style && !provider.styles.includes(style)) {
+        return { text: `スタイル "${style}" は使用できません。使用できるスタイル: ${provider.styles.join(', ')}` };
+      }
+
+      if (size && !provider.sizes.includes(size)) {
+        return { text: `サイズ "${size}" は使用できません。使用できるサイズ: ${provider.sizes.join(', ')}` };
+      }
+
+      // 日々の制限を確認
+      if (provider.serviceType) {
+        const dailyLimit = await BotSettingsService.getApiLimit(provider.serviceType);
+        const dailyUsage = await ApiUsageService.getDailyUsage(provider.serviceType);
+
+        if (dailyUsage >= dailyLimit) {
+          return { text: `本日の画像生成APIの使用量制限(${dailyLimit}回)に達しました。明日以降に再度お試しください。` };
+        }
+      }
+
+      const image = await provider.generate({ prompt, style, size });
+
+      // API使用量をトラッキング（生成に成功した場合のみ）
+      if (provider.serviceType) {
+        await ApiUsageService.trackApiUsage(provider.serviceType);
+      }
+
+      const extension = FILE_EXTENSIONS[image.mimeType] || 'png';
+
+      return {
+        text: `「${prompt}」の画像を生成しました。`,
+        files: [{ name: `image.${extension}`, data: image.data.toString('base64') }]
+      };
+    } catch (error: any) {
+      console.error('Image generation error:', error);
+      return { text: `画像の生成中にエラーが発生しました: ${error.message || error}` };
+    }
+  }
+};
+
+export default ImageGenerationAgent;
@@ -0,0 +1,41 @@
+/**
+ * 組み込みエージェントの登録
+ * このモジュールを読み込むと、src/agents以下のエージェントがレジストリに登録される
+ */
+
+import AgentRegistry from './agent-registry';
+import CommandParserAgent from './command-parser-agent';
+import ContentDetectorAgent from './content-detector-agent';
+import WebSearchAgent from './web-search-agent';
+import SearchResultFormatterAgent from './search-result-formatter-agent';
+import BotConfigAgent from './bot-config-agent';
+import GroundedAnswerAgent from './grounded-answer-agent';
+import ImageGenerationAgent from './image-generation-agent';
+import SearchEmbedFormatterAgent from './search-embed-formatter-agent';
+import CommandRunnerAgent from './command-runner-agent';
+import ConfigAgent from './config-agent';
+import PermissionLevelAgent from './permission-level-agent';
+import ConversationScopeAgent from './conversation-scope-agent';
+import MemoryAgent from './memory-agent';
+import RememberAgent from './remember-agent';
+import ForgetAgent from './forget-agent';
+import GuildAccessAgent from './guild-access-agent';
+
+AgentRegistry.register(CommandParserAgent);
+AgentRegistry.register(ContentDetectorAgent);
+AgentRegistry.register(WebSearchAgent);
+AgentRegistry.register(SearchResultFormatterAgent);
+AgentRegistry.register(BotConfigAgent);
+AgentRegistry.register(GroundedAnswerAgent);
+AgentRegistry.register(ImageGenerationAgent);
+AgentRegistry.register(SearchEmbedFormatterAgent);
+AgentRegistry.register(CommandRunnerAgent);
+AgentRegistry.register(ConfigAgent);
+AgentRegistry.register(PermissionLevelAgent);
+AgentRegistry.register(ConversationScopeAgent);
+AgentRegistry.register(MemoryAgent);
+AgentRegistry.register(RememberAgent);
+AgentRegistry.register(ForgetAgent);
+AgentRegistry.register(GuildAccessAgent);
+
+export default AgentRegistry;
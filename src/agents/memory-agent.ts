@@ -0,0 +1,86 @@
+/**
+ * 会話の要約エージェント
+ * !memory コマンドで会話の要約（履歴から削った古い発言の記憶）を表示・編集・クリアする
+ */
+
+import ConversationService, { ConversationScope } from '../services/conversation-service';
+import { Agent, DiscordOutput } from './types';
+
+export interface MemoryInput {
+  // show（省略時）・set・clear
+  action?: string;
+  // setで設定する要約
+  text?: string;
+  userId: string;
+  conversation?: ConversationScope;
+  prefix?: string;
+}
+
+// 手動で設定できる要約の最大文字数
+const MAX_SUMMARY_LENGTH = 2000;
+
+const MemoryAgent: Agent<MemoryInput, DiscordOutput> = {
+  name: 'memoryAgent',
+  description: '会話の要約を表示・編集・クリアします',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', description: 'show・set・clear' },
+      text: { type: 'string', description: '設定する要約' },
+      userId: { type: 'string' },
+      conversation: { type: 'object', description: '会話履歴の範囲' },
+      prefix: { type: 'string' }
+    },
+    required: ['userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text']
+  },
+
+  /**
+   * 会話の要約を表示・編集・クリアする
+   * @param input - 操作・要約と会話履歴の範囲
+   * @returns 応答
+   */
+  async process({ action = 'show', text, userId, conversation = ConversationService.getScope({ userId }), prefix = '!' }: MemoryInput): Promise<DiscordOutput> {
+    const current = await ConversationService.getConversationSummary(conversation.key);
+    const target = conversation.shared ? 'この会話（参加者全員で共有）' : 'この会話';
+
+    if (action === 'show') {
+      const lines = [
+        `**${target}の要約:**`,
+        current.summary || '（まだありません。会話が長くなると古い発言が要約されます）'
+      ];
+      if (current.pending.length > 0) {
+        lines.push('', `※ まだ要約されていない古い発言が${current.pending.length}件あります。`);
+      }
+      lines.push('', `編集: \`${prefix}memory set <要約>\`　クリア: \`${prefix}memory clear\``);
+      return { text: lines.join('\n') };
+    }
+
+    if (action === 'set') {
+      const summary = text?.trim();
+      if (!summary) {
+        return { text: `設定する要約を指定してください（例: \`${prefix}memory set 名前は太郎。Rustを勉強中\`）。` };
+      }
+      if (summary.length > MAX_SUMMARY_LENGTH) {
+        return { text: `要約は${MAX_SUMMARY_LENGTH}文字以内で指定してください。` };
+      }
+
+      const saved = await ConversationService.saveConversationSummary(conversation.key, { ...current, summary });
+      return { text: saved ? `${target}の要約を更新しました。` : '要約の保存に失敗しました。' };
+    }
+
+    if (action === 'clear') {
+      const saved = await ConversationService.saveConversationSummary(conversation.key, { summary: null, pending: [] });
+      return { text: saved ? `${target}の要約をクリアしました。` : '要約のクリアに失敗しました。' };
+    }
+
+    return { text: '操作には show・set・clear のいずれかを指定してください。' };
+  }
+};
+
+export default MemoryAgent;
@@ -0,0 +1,46 @@
+/**
+ * 権限レベルエージェント
+ * 送信者の権限・ロールとサーバー設定から、コマンドの実行可否の判定に使う権限レベルを返す
+ */
+
+import PermissionService, { PermissionConfig, PermissionLevel, PermissionSubject } from '../services/permission-service';
+import { Agent } from './types';
+
+export interface PermissionLevelInput extends PermissionSubject {
+  botConfig?: PermissionConfig;
+}
+
+const PermissionLevelAgent: Agent<PermissionLevelInput, { level: PermissionLevel }> = {
+  name: 'permissionLevelAgent',
+  description: '送信者の権限レベル（owner・admin・trusted・everyone）を判定します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      userId: { type: 'string' },
+      guildId: { type: 'string', description: 'サーバーID（DMの場合は省略）' },
+      memberPermissions: { type: 'array', items: { type: 'string' }, description: '送信者のサーバーでの権限' },
+      memberRoles: { type: 'array', items: { type: 'string' }, description: '送信者のロールID' },
+      botConfig: { type: 'object', description: 'botConfigAgentの設定' }
+    },
+    required: ['userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      level: { type: 'string', enum: ['everyone', 'trusted', 'admin', 'owner'] }
+    },
+    required: ['level']
+  },
+
+  /**
+   * 権限レベルを判定する
+   * @param input - 送信者の情報とサーバー設定
+   * @returns 権限レベル
+   */
+  async process({ botConfig, ...subject }: PermissionLevelInput): Promise<{ level: PermissionLevel }> {
+    return { level: PermissionService.getPermissionLevel(subject, botConfig) };
+  }
+};
+
+export default PermissionLevelAgent;
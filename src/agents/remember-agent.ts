@@ -0,0 +1,84 @@
+/**
+ * 記憶エージェント
+ * !remember コマンドでユーザーの事実や好みを記憶する（内容を省略した場合は記憶の一覧を表示する）
+ */
+
+import UserMemoryService, { MAX_MEMORIES_PER_USER, MAX_MEMORY_LENGTH, UserMemory } from '../services/user-memory-service';
+import { Agent, DiscordOutput } from './types';
+
+export interface RememberInput {
+  // 記憶する内容
+  fact?: string;
+  userId: string;
+  prefix?: string;
+}
+
+/**
+ * 記憶の一覧を表示用の文字列にする（番号は !forget で指定する番号）
+ * @param memories ユーザーの記憶
+ * @param prefix コマンドのプレフィックス
+ * @returns 表示用の文字列
+ */
+export function formatMemoryList(memories: UserMemory[], prefix: string): string {
+  if (memories.length === 0) {
+    return `あなたについて記憶していることはありません。\`${prefix}remember <内容>\` で覚えさせることができます。`;
+  }
+
+  return [
+    `**あなたについて記憶していること（${memories.length}/${MAX_MEMORIES_PER_USER}件）:**`,
+    ...memories.map((memory, index) => `${index + 1}. ${memory.content}${memory.source === 'auto' ? '（自動）' : ''}`),
+    '',
+    `削除: \`${prefix}forget <番号>\`　すべて削除: \`${prefix}forget all\``
+  ].join('\n');
+}
+
+const RememberAgent: Agent<RememberInput, DiscordOutput> = {
+  name: 'rememberAgent',
+  description: 'ユーザーの事実や好みを記憶します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      fact: { type: 'string', description: '記憶する内容' },
+      userId: { type: 'string' },
+      prefix: { type: 'string' }
+    },
+    required: ['userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text']
+  },
+
+  /**
+   * 記憶を追加する（内容を省略した場合は一覧を表示する）
+   * @param input - 記憶する内容と送信者
+   * @returns 応答
+   */
+  async process({ fact, userId, prefix = '!' }: RememberInput): Promise<DiscordOutput> {
+    const memories = await UserMemoryService.listMemories(userId);
+    const content = fact?.trim();
+
+    if (!content) {
+      return { text: formatMemoryList(memories, prefix) };
+    }
+
+    if (content.length > MAX_MEMORY_LENGTH) {
+      return { text: `記憶する内容は${MAX_MEMORY_LENGTH}文字以内で指定してください。` };
+    }
+
+    if (memories.some(memory => memory.content.toLowerCase() === content.toLowerCase())) {
+      return { text: 'その内容はすでに記憶しています。' };
+    }
+
+    if (memories.length >= MAX_MEMORIES_PER_USER) {
+      return { text: `記憶できるのは${MAX_MEMORIES_PER_USER}件までです。\`${prefix}forget <番号>\` で不要なものを削除してください。` };
+    }
+
+    const memory = await UserMemoryService.addMemory(userId, content);
+    return { text: memory ? `覚えました: ${memory.content}` : '記憶の保存に失敗しました。' };
+  }
+};
+
+export default RememberAgent;
@@ -0,0 +1,143 @@
+/**
+ * 検索結果埋め込みフォーマッターエージェント
+ * 検索結果をDiscordの埋め込み（Embed）とページ送りボタンに整形する
+ */
+
+import { APIActionRowComponent, APIButtonComponent, APIEmbed, ButtonStyle, ComponentType } from 'discord.js';
+import SearchSessionService from '../services/search-session-service';
+import SearchResultFormatterAgent from './search-result-formatter-agent';
+import { SearchOptions, SearchResult } from './web-search-agent';
+import { Agent } from './types';
+
+export interface SearchEmbedInput {
+  searchResults: SearchResult;
+  // 検索時のオプション（ページ送りで同じ条件を使う）
+  options?: SearchOptions;
+  // ページ送りの場合は既存のセッションIDを指定する
+  sessionId?: string;
+  userId?: string;
+}
+
+export interface SearchEmbedOutput {
+  text: string;
+  embeds?: APIEmbed[];
+  components?: APIActionRowComponent<APIButtonComponent>[];
+}
+
+// ページ送りボタンのカスタムIDの接頭辞（"search:<セッションID>:<offset>"）
+export const SEARCH_BUTTON_PREFIX = 'search';
+
+// Brave Search APIで指定できるoffsetの最大値
+const MAX_OFFSET = 9;
+
+// 1ページあたりの検索結果の件数（webSearchAgentのデフォルト）
+const DEFAULT_COUNT = 5;
+
+// Discordの1メッセージに付けられる埋め込みの上限
+export const MAX_EMBEDS = 10;
+
+// 埋め込みの色（Brave Searchのブランドカラー）
+const EMBED_COLOR = 0xfb542b;
+
+/**
+ * ページ送りボタンを作成する
+ * @param sessionId セッションID
+ * @param offset 現在のoffset
+ * @param hasNext 次のページがあるかどうか
+ * @returns ボタンの行
+ */
+function buildPaginationRow(sessionId: string, offset: number, hasNext: boolean): APIActionRowComponent<APIButtonComponent> {
+  return {
+    type: ComponentType.ActionRow,
+    components: [
+      {
+        type: ComponentType.Button,
+        style: ButtonStyle.Secondary,
+        label: '◀ 前へ',
+        custom_id: `${SEARCH_BUTTON_PREFIX}:${sessionId}:${offset - 1}`,
+        disabled: offset <= 0
+      },
+      {
+        type: ComponentType.Button,
+        style: ButtonStyle.Secondary,
+        label: '次へ ▶',
+        custom_id: `${SEARCH_BUTTON_PREFIX}:${sessionId}:${offset + 1}`,
+        disabled: !hasNext
+      }
+    ]
+  };
+}
+
+const SearchEmbedFormatterAgent: Agent<SearchEmbedInput, SearchEmbedOutput> = {
+  name: 'searchEmbedFormatterAgent',
+  description: '検索結果をDiscordの埋め込みとページ送りボタンに整形します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      searchResults: { type: 'object', description: 'webSearchAgentの検索結果' },
+      options: { type: 'object', description: '検索オプション' },
+      sessionId: { type: 'string', description: '既存の検索セッションID' },
+      userId: { type: 'string' }
+    },
+    required: ['searchResults']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      text: { type: 'string' },
+      embeds: { type: 'array' },
+      components: { type: 'array' }
+    },
+    required: ['text']
+  },
+
+  /**
+   * 検索結果を埋め込みに整形する
+   * @param input - 検索結果と検索セッション
+   * @returns メッセージ本文・埋め込み・ボタン
+   */
+  async process({ searchResults, options = {}, sessionId, userId }: SearchEmbedInput): Promise<SearchEmbedOutput> {
+    const results = searchResults.web?.results || [];
+
+    // エラーや結果なしの場合はテキストで返す
+    if (searchResults.error || results.length === 0) {
+      return await SearchResultFormatterAgent.process({ searchResults });
+    }
+
+    try {
+      const offset = options.offset || 0;
+      const count = Math.min(options.count || DEFAULT_COUNT, MAX_EMBEDS);
+
+      // 上限を超える件数で保存された検索セッションでも、1ページには上限までを表示する
+      const embeds: APIEmbed[] = results.slice(0, MAX_EMBEDS).map((result, index) => ({
+        color: EMBED_COLOR,
+        title: `${offset * count + index + 1}. ${result.title}`.slice(0, 256),
+        url: result.url,
+        description: (result.description || '説明なし').slice(0, 4096),
+        author: result.meta_url?.hostname ? {
+          name: result.meta_url.hostname,
+          icon_url: result.meta_url.favicon || result.profile?.img
+        } : undefined,
+        thumbnail: result.thumbnail?.src ? { url: result.thumbnail.src } : undefined
+      }));
+
+      embeds[embeds.length - 1].footer = { text: `Brave Search・${offset + 1}ページ目` };
+
+      // ページ送り用に検索条件を保存（保存できない場合はボタンなし）
+      const id = sessionId || await SearchSessionService.createSession(searchResults.query, options, userId);
+      const hasNext = results.length >= count && offset < MAX_OFFSET;
+
+      return {
+        text: `「${searchResults.query}」の検索結果:`,
+        embeds,
+        components: id ? [buildPaginationRow(id, offset, hasNext)] : []
+      };
+    } catch (error: any) {
+      console.error('Error formatting search embeds:', error);
+      return await SearchResultFormatterAgent.process({ searchResults });
+    }
+  }
+};
+
+export default SearchEmbedFormatterAgent;
@@ -0,0 +1,42 @@
+/**
+ * エージェント共通の型定義
+ */
+
+import { APIActionRowComponent, APIButtonComponent, APIEmbed } from 'discord.js';
+
+// 入出力スキーマ（JSON Schema形式）
+export type AgentSchema = Record<string, any>;
+
+// エージェントのメタデータ
+export interface AgentInfo {
+  name: string;
+  description: string;
+  version: string;
+  inputSchema: AgentSchema;
+  outputSchema: AgentSchema;
+}
+
+// すべてのエージェントが実装するインターフェース
+export interface Agent<I = any, O = any> extends AgentInfo {
+  /**
+   * エージェントの処理を実行する
+   * @param input 入力
+   * @returns 出力
+   */
+  process(input: I): Promise<O>;
+}
+
+// Discordに添付ファイルとして送信するファイル
+// GraphAIはノードの結果を複製するため、Bufferではなくbase64文字列で受け渡す
+export interface OutputFile {
+  name: string;
+  data: string;
+}
+
+// discordOutputノードの出力（textのほかに添付ファイル・埋め込み・ボタンを返せる）
+export interface DiscordOutput {
+  text?: string;
+  files?: OutputFile[];
+  embeds?: APIEmbed[];
+  components?: APIActionRowComponent<APIButtonComponent>[];
+}
@@ -4,8 +4,11 @@
 
 import fetch from 'node-fetch';
 import config from '../config';
+import ApiUsageService from '../services/api-usage-service';
+import BotSettingsService from '../services/bot-settings-service';
+import { Agent } from './types';
 
-interface SearchOptions {
+export interface SearchOptions {
   count?: number;
   offset?: number;
   country?: string;
@@ -15,29 +18,80 @@ interface SearchOptions {
   freshness?: string;
 }
 
-interface SearchResult {
+export interface WebSearchInput extends SearchOptions {
+  query: string;
+}
+
+export interface SearchResult {
   query: string;
   web?: {
-    results: any[];
+    results: Array<{
+      title: string;
+      url: string;
+      description: string;
+      [key: string]: any;
+    }>;
     [key: string]: any;
   };
   error?: boolean;
   message?: string;
 }
 
-const WebSearchAgent = {
+const WebSearchAgent: Agent<WebSearchInput, SearchResult> = {
+  name: 'webSearchAgent',
+  description: 'Brave Search APIでウェブ検索を実行します（日次の使用量制限あり）',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: '検索クエリ' },
+      count: { type: 'number' },
+      offset: { type: 'number' },
+      country: { type: 'string' },
+      search_lang: { type: 'string' },
+      ui_lang: { type: 'string' },
+      safesearch: { type: 'string' },
+      freshness: { type: 'string' }
+    },
+    required: ['query']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      web: { type: 'object' },
+      error: { type: 'boolean' },
+      message: { type: 'string' }
+    },
+    required: ['query']
+  },
+
   /**
    * ウェブ検索を実行する
-   * @param query - 検索クエリ
-   * @param options - 検索オプション
+   * @param input - 検索クエリと検索オプション
    * @returns 検索結果
    */
-  async process(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+  async process({ query, ...options }: WebSearchInput): Promise<SearchResult> {
     try {
       // APIキーの確認
       if (!config.brave || !config.brave.apiKey) {
         throw new Error('Brave API key is not configured');
       }
+      
+      // API使用量をトラッキング
+      await ApiUsageService.trackApiUsage('brave');
+      
+      // 日々の制限を確認
+      const dailyLimit = await BotSettingsService.getApiLimit('brave');
+      const dailyUsage = await ApiUsageService.getDailyUsage('brave');
+      
+      if (dailyUsage >= dailyLimit) {
+        return {
+          error: true,
+          message: `本日のウェブ検索APIの使用量制限(${dailyLimit}回)に達しました。明日以降に再度お試しください。`,
+          query
+        };
+      }
 
       // リクエストパラメータの構築
       const params = new URLSearchParams();
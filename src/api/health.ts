@@ -5,6 +5,7 @@
 
 import express from 'express';
 import supabase from '../db/supabase';
+import AgentRegistry from '../agents';
 
 // ルーターの設定
 const router = express.Router();
@@ -52,6 +53,7 @@ router.get('/', async (req, res) => {
       databaseStatus: 'connected',
       botStatus: data && data.length > 0 ? data[0].status : 'unknown',
       lastUpdate: data && data.length > 0 ? data[0].updated_at : null,
+      agents: AgentRegistry.listAgents().map(({ name, version, description }) => ({ name, version, description })),
       systemInfo
     });
   } catch (error: any) {
@@ -6,6 +6,7 @@
 import express from 'express';
 import cors from 'cors';
 import healthRouter from './health';
+import tracesRouter from './traces';
 import LogService from '../services/log-service';
 
 // Express アプリの作成
@@ -45,13 +46,16 @@ app.get('/', (req, res) => {
     name: 'GraphAI Discord Bot API',
     version: '1.0.0',
     status: 'active',
-    endpoints: ['/api/health']
+    endpoints: ['/api/health', '/api/traces/:messageId']
   });
 });
 
 // ヘルスチェックルーターのマウント
 app.use('/api/health', healthRouter);
 
+// 実行トレースルーターのマウント
+app.use('/api/traces', tracesRouter);
+
 // 404ハンドラー
 app.use((req, res) => {
   LogService.warn('api', `404 Not Found: ${req.method} ${req.originalUrl}`);
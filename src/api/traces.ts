@@ -0,0 +1,71 @@
+/**
+ * フロー実行トレースAPI
+ * DiscordメッセージIDから、そのメッセージを処理したフローの実行記録を返す
+ */
+
+import express from 'express';
+import TraceService from '../services/trace-service';
+import LogService from '../services/log-service';
+
+// ルーターの設定
+const router = express.Router();
+
+/**
+ * 管理者トークンの確認
+ * ADMIN_API_TOKENが未設定の場合はAPI自体を無効にする
+ */
+router.use((req, res, next) => {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  
+  if (!adminToken) {
+    return res.status(403).json({
+      status: 'error',
+      message: 'Trace API is disabled (ADMIN_API_TOKEN is not set)'
+    });
+  }
+  
+  if (req.get('authorization') !== `Bearer ${adminToken}`) {
+    LogService.warn('security', 'トレースAPIへの不正なアクセス', {
+      path: req.originalUrl,
+      ip: req.ip || 'unknown'
+    });
+    return res.status(401).json({
+      status: 'error',
+      message: 'Unauthorized'
+    });
+  }
+  
+  next();
+});
+
+/**
+ * トレース取得ハンドラー
+ * /api/traces/:messageId エンドポイントにGETリクエストを処理
+ */
+router.get('/:messageId', async (req, res) => {
+  try {
+    const traces = await TraceService.getTracesByMessageId(req.params.messageId);
+    
+    if (traces.length === 0) {
+      return res.status(404).json({
+        status: 'error',
+        message: 'Trace not found',
+        messageId: req.params.messageId
+      });
+    }
+    
+    return res.status(200).json({
+      status: 'ok',
+      messageId: req.params.messageId,
+      traces
+    });
+  } catch (error: any) {
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to retrieve trace',
+      error: error.message
+    });
+  }
+});
+
+export default router;
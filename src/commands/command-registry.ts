@@ -0,0 +1,123 @@
+/**
+ * コマンドレジストリ
+ * コマンドを名前・エイリアスで登録・検索し、使い方やヘルプを生成する
+ */
+
+import { CommandDefinition } from './types';
+
+// 登録済みコマンド（登録順）
+const commands = new Map<string, CommandDefinition>();
+
+// 名前・エイリアス → コマンド名
+const lookup = new Map<string, string>();
+
+// 「もしかして」の候補とする最大の編集距離
+const MAX_SUGGESTION_DISTANCE = 2;
+
+/**
+ * 2つの文字列の編集距離（レーベンシュタイン距離）を求める
+ * @param a 文字列
+ * @param b 文字列
+ * @returns 編集距離
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+const CommandRegistry = {
+  /**
+   * コマンドを登録する
+   * @param command コマンド定義
+   */
+  register(command: CommandDefinition): void {
+    for (const key of [command.name, ...command.aliases]) {
+      if (lookup.has(key)) {
+        throw new Error(`Command name "${key}" is already registered`);
+      }
+    }
+
+    commands.set(command.name, command);
+    [command.name, ...command.aliases].forEach(key => lookup.set(key, command.name));
+  },
+
+  /**
+   * 名前またはエイリアスでコマンドを取得する
+   * @param name コマンド名またはエイリアス
+   * @returns コマンド定義（未登録の場合はundefined）
+   */
+  get(name: string): CommandDefinition | undefined {
+    const commandName = lookup.get(name.toLowerCase());
+    return commandName ? commands.get(commandName) : undefined;
+  },
+
+  /**
+   * 登録済みコマンドの一覧を取得する
+   * @returns コマンド定義の配列（登録順）
+   */
+  listCommands(): CommandDefinition[] {
+    return [...commands.values()];
+  },
+
+  /**
+   * 入力に近いコマンド名を探す
+   * @param name 入力されたコマンド名
+   * @returns 最も近いコマンド名（近いものがない場合はundefined）
+   */
+  suggest(name: string): string | undefined {
+    let best: { name: string; distance: number } | undefined;
+
+    lookup.forEach((commandName, key) => {
+      const distance = editDistance(name.toLowerCase(), key);
+      if (distance <= MAX_SUGGESTION_DISTANCE && (!best || distance < best.distance)) {
+        best = { name: commandName, distance };
+      }
+    });
+
+    return best?.name;
+  },
+
+  /**
+   * コマンドの使い方を作成する
+   * @param command コマンド定義
+   * @param prefix コマンドのプレフィックス
+   * @returns 使い方（例: "!image <prompt> [--style 値]"）
+   */
+  formatUsage(command: CommandDefinition, prefix: string): string {
+    const args = command.args
+      .filter(arg => arg.type !== 'attachment')
+      .map(arg => arg.required ? `<${arg.name}>` : `[${arg.name}]`);
+    const options = command.options.map(option => option.type === 'boolean' ? `[--${option.name}]` : `[--${option.name} 値]`);
+
+    return [`${prefix}${command.name}`, ...args, ...options].join(' ');
+  },
+
+  /**
+   * ヘルプに表示するコマンド一覧を作成する
+   * @param prefix コマンドのプレフィックス
+   * @returns Markdown形式のコマンド一覧
+   */
+  formatHelp(prefix: string): string {
+    return this.listCommands().map(command => {
+      const aliases = command.aliases.length > 0 ?
+        `（${command.aliases.map(alias => `\`${prefix}${alias}\``).join('・')}）` :
+        '';
+      return `- \`${this.formatUsage(command, prefix)}\`${aliases} - ${command.description}`;
+    }).join('\n');
+  }
+};
+
+export default CommandRegistry;
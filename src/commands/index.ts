@@ -0,0 +1,159 @@
+/**
+ * 組み込みコマンドの登録
+ * このモジュールを読み込むと、組み込みコマンドがレジストリに登録される
+ * （プレフィックスコマンドの解析・ヘルプ・スラッシュコマンドはすべてここでの定義から作成される）
+ */
+
+import CommandRegistry from './command-registry';
+
+export * from './types';
+
+CommandRegistry.register({
+  id: 'help',
+  name: 'help',
+  aliases: ['h', '?'],
+  description: 'ヘルプメッセージを表示します',
+  args: [],
+  options: [],
+  handler: 'helpAgent'
+});
+
+CommandRegistry.register({
+  id: 'webSearch',
+  name: 'search',
+  aliases: ['find', 's'],
+  description: 'ウェブ検索を実行します',
+  args: [
+    { name: 'query', description: '検索キーワード（"rust async" のように引用符で囲むとまとめて1語）', type: 'string', required: true, rest: true }
+  ],
+  options: [
+    { name: 'count', description: '表示する件数（1〜10）', type: 'number', min: 1, max: 10 },
+    { name: 'offset', aliases: ['page'], description: 'ページ（0〜9）', type: 'number', min: 0, max: 9 },
+    {
+      name: 'fresh',
+      aliases: ['freshness'],
+      description: '期間の絞り込み',
+      type: 'string',
+      param: 'freshness',
+      choices: { day: 'pd', week: 'pw', month: 'pm', year: 'py' }
+    },
+    { name: 'country', description: '国コード（例: jp, us）', type: 'string', pattern: /^[a-z]{2}$/i },
+    {
+      name: 'safesearch',
+      description: 'セーフサーチ',
+      type: 'string',
+      choices: { off: 'off', moderate: 'moderate', strict: 'strict' }
+    }
+  ]
+});
+
+CommandRegistry.register({
+  id: 'generateImage',
+  name: 'image',
+  aliases: ['img', 'i'],
+  description: '画像を生成します',
+  args: [
+    { name: 'prompt', description: '生成する画像の説明', type: 'string', required: true, rest: true }
+  ],
+  options: [
+    { name: 'style', description: 'スタイル（例: digital_illustration）', type: 'string' },
+    { name: 'size', description: '画像サイズ（例: 1024x1024）', type: 'string' }
+  ],
+  handler: 'imageGenerationAgent'
+});
+
+CommandRegistry.register({
+  id: 'clearChat',
+  name: 'clear',
+  aliases: ['reset', 'c'],
+  description: '会話履歴をクリアします',
+  args: [],
+  options: [],
+  handler: 'clearHistoryAgent'
+});
+
+CommandRegistry.register({
+  id: 'memory',
+  name: 'memory',
+  aliases: ['summary', 'mem'],
+  description: '会話の要約（古い発言の記憶）を表示・編集・クリアします',
+  args: [
+    { name: 'action', description: 'show（表示）・set（編集）・clear（クリア）', type: 'string' },
+    { name: 'text', description: '設定する要約', type: 'string', rest: true }
+  ],
+  options: [],
+  handler: 'memoryAgent'
+});
+
+CommandRegistry.register({
+  id: 'remember',
+  name: 'remember',
+  aliases: ['rem'],
+  description: 'あなたについての事実や好みを記憶します（省略すると記憶の一覧を表示）',
+  args: [
+    { name: 'fact', description: '記憶する内容（例: 英語で答えてほしい）', type: 'string', rest: true }
+  ],
+  options: [],
+  handler: 'rememberAgent'
+});
+
+CommandRegistry.register({
+  id: 'forget',
+  name: 'forget',
+  aliases: [],
+  description: 'あなたについての記憶を削除します（省略すると記憶の一覧を表示）',
+  args: [
+    { name: 'target', description: '削除する記憶の番号（all ですべて削除）', type: 'string' }
+  ],
+  options: [],
+  handler: 'forgetAgent'
+});
+
+CommandRegistry.register({
+  id: 'config',
+  name: 'config',
+  aliases: ['settings'],
+  description: 'このサーバー・チャンネルのボット設定を表示・変更します',
+  args: [
+    { name: 'action', description: 'show（表示）・set（変更）・reset（元に戻す）', type: 'string' },
+    { name: 'key', description: '設定項目（例: prefix, search_enabled）', type: 'string' },
+    { name: 'value', description: '設定値', type: 'string', rest: true }
+  ],
+  options: [
+    { name: 'channel', description: 'サーバー全体ではなくこのチャンネルだけに適用する', type: 'boolean' }
+  ],
+  level: 'admin',
+  handler: 'configAgent'
+});
+
+CommandRegistry.register({
+  id: 'guild',
+  name: 'guild',
+  aliases: [],
+  description: 'ボットを利用できるサーバーの許可リスト・拒否リストを表示・変更します',
+  args: [
+    { name: 'action', description: 'show（表示）・allow（許可）・deny（拒否）・remove（登録を削除）', type: 'string' },
+    { name: 'target', description: 'サーバーID（省略時はこのサーバー）', type: 'string' },
+    { name: 'note', description: 'メモ', type: 'string', rest: true }
+  ],
+  options: [],
+  level: 'owner',
+  handler: 'guildAccessAgent'
+});
+
+CommandRegistry.register({
+  id: 'chatDefault',
+  name: 'ask',
+  aliases: [],
+  description: 'ボッチーに質問します（メンションやDMでの通常の会話と同じ）',
+  args: [
+    { name: 'question', description: '質問内容', type: 'string', required: true, rest: true },
+    { name: 'file', description: '質問に関係する画像・PDF', type: 'attachment' }
+  ],
+  options: [
+    // 料金の高いモデルを誰でも選べないように、信頼されたユーザー以上に限る
+    { name: 'model', description: '使用するモデル（例: gpt-4o-mini, gemini-2.0-flash）', type: 'string', level: 'trusted' }
+  ]
+});
+
+export default CommandRegistry;
@@ -0,0 +1,96 @@
+/**
+ * コマンド引数のトークナイザー
+ * 空白で区切り、引用符で囲まれた部分は1つのトークンとして扱う
+ */
+
+// 引用符で囲まれていたかどうかを含むトークン
+export interface Token {
+  value: string;
+  // 引用符で囲まれたトークンはオプション（--名前）として扱わない
+  quoted: boolean;
+  // 元のテキストでの位置（startは先頭、endは末尾の次の文字。引用符を含む）
+  start: number;
+  end: number;
+}
+
+// 開き引用符 → 閉じ引用符
+const QUOTES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  '“': '”',
+  '「': '」'
+};
+
+/**
+ * テキストをトークンに分割する
+ * 引用符の中では空白で区切らず、バックスラッシュで引用符をエスケープできる
+ * @param text コマンド名より後のテキスト
+ * @returns トークンの配列（閉じられていない引用符は末尾までを1つのトークンとする）
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let current = '';
+  let quoted = false;
+  let closingQuote: string | null = null;
+  let hasToken = false;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (closingQuote) {
+      if (char === '\\' && text[i + 1] === closingQuote) {
+        current += text[++i];
+      } else if (char === closingQuote) {
+        closingQuote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      if (hasToken) {
+        tokens.push({ value: current, quoted, start, end: i });
+      }
+      current = '';
+      quoted = false;
+      hasToken = false;
+      continue;
+    }
+
+    // トークンの先頭の引用符のみを引用の開始とする（don't のような語中の記号はそのまま）
+    if (!hasToken && QUOTES[char]) {
+      closingQuote = QUOTES[char];
+      quoted = true;
+      hasToken = true;
+      start = i;
+      continue;
+    }
+
+    if (!hasToken) {
+      start = i;
+    }
+    current += char;
+    hasToken = true;
+  }
+
+  if (hasToken) {
+    tokens.push({ value: current, quoted, start, end: text.length });
+  }
+
+  return tokens;
+}
+
+/**
+ * 値を1つのトークンとして解析されるように必要に応じて引用符で囲む
+ * @param value 値
+ * @returns トークンとして書き出した値
+ */
+export function quoteToken(value: string): string {
+  if (value && !/[\s"'“「]/.test(value) && !value.startsWith('--')) {
+    return value;
+  }
+
+  return `"${value.replace(/"/g, '\\"')}"`;
+}
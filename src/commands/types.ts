@@ -0,0 +1,50 @@
+/**
+ * コマンド定義の型
+ */
+
+import { PermissionLevel } from '../services/permission-service';
+
+// 位置引数
+export interface CommandArgument {
+  name: string;
+  description: string;
+  // attachmentはスラッシュコマンドのみ（プレフィックスコマンドではメッセージの添付ファイルを使う）
+  type: 'string' | 'attachment';
+  required?: boolean;
+  // trueの場合は残りのテキストすべてを受け取る（最後の引数のみ）
+  rest?: boolean;
+}
+
+// "--名前 値"・"--名前=値" 形式のオプション（booleanの場合は "--名前" のみで指定する）
+export interface CommandOption {
+  name: string;
+  aliases?: string[];
+  description: string;
+  type: 'string' | 'number' | 'boolean';
+  // 解析結果のキー（省略時はname）
+  param?: string;
+  // 指定できる値（キーが入力値、値が解析結果に入る値）
+  choices?: Record<string, string>;
+  // 数値の範囲
+  min?: number;
+  max?: number;
+  // 文字列の形式
+  pattern?: RegExp;
+  // 指定に必要な権限レベル（省略時はeveryone）
+  level?: PermissionLevel;
+}
+
+export interface CommandDefinition {
+  // フロー内の分岐名（parsedCommand.is.<id> で参照する）
+  id: string;
+  // コマンド名（プレフィックスコマンド・スラッシュコマンド共通）
+  name: string;
+  aliases: string[];
+  description: string;
+  args: CommandArgument[];
+  options: CommandOption[];
+  // 実行に必要な権限レベル（省略時はeveryone、adminの場合はサーバーでのみ表示されるスラッシュコマンドになる）
+  level?: PermissionLevel;
+  // コマンドを処理するエージェント名（省略した場合はフローの分岐で処理する）
+  handler?: string;
+}
@@ -12,8 +12,17 @@ export default {
     token: process.env.DISCORD_TOKEN,
     clientId: process.env.DISCORD_CLIENT_ID,
     prefix: process.env.PREFIX || '!',
-    guildId: process.env.GUILD_ID,
-    allowAllServers: process.env.ALLOW_ALL_SERVERS === 'true'
+    // 起動時にSupabaseから読み込む環境変数（env-loader）を反映するため、参照するたびに読む
+    get guildId() {
+      return process.env.GUILD_ID;
+    },
+    get allowAllServers() {
+      return process.env.ALLOW_ALL_SERVERS === 'true';
+    },
+    // ボットのオーナーのユーザーID（カンマ区切り、すべてのコマンドを実行できる）
+    get ownerIds() {
+      return (process.env.BOT_OWNER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+    }
   },
   gemini: {
     apiKey: process.env.GEMINI_API_KEY,
@@ -23,12 +32,48 @@ export default {
     apiKey: process.env.OPENAI_API_KEY,
     model: 'gpt-4o-mini',
   },
+  llm: {
+    // gemini・openai または fake（外部APIを呼ばない動作確認用）
+    // サーバー・チャンネルの設定（model）やコマンドの --model でモデルを指定しない場合に使う
+    // 起動時にSupabaseから読み込む環境変数（env-loader）を反映するため、参照するたびに読む
+    get provider() {
+      return process.env.LLM_PROVIDER || 'gemini';
+    },
+    // 選択したモデルが失敗した場合に順に切り替えるモデル名またはプロバイダー名（カンマ区切り）
+    get fallbackModels() {
+      return (process.env.LLM_FALLBACK_MODELS ?? 'gemini-2.0-flash-lite').split(',').map(model => model.trim()).filter(Boolean);
+    },
+  },
   recraft: {
     apiKey: process.env.RECRAFT_API_KEY,
   },
+  imageGeneration: {
+    // recraft または stub（外部APIを呼ばない動作確認用）
+    // 起動時にSupabaseから読み込む環境変数（env-loader）を反映するため、参照するたびに読む
+    get provider() {
+      return process.env.IMAGE_PROVIDER || 'recraft';
+    },
+  },
   brave: {
     apiKey: process.env.BRAVE_API_KEY,
   },
+  conversation: {
+    // モデルに渡す会話履歴のトークン数の上限（システムプロンプトと最新の発言を含む）
+    tokenBudgets: {
+      'gemini-2.0-flash': 16000,
+      'gpt-4o-mini': 16000,
+    } as Record<string, number>,
+    // tokenBudgetsにないモデルの上限（HISTORY_TOKEN_BUDGETを指定するとすべてのモデルでこの値を使う）
+    defaultTokenBudget: 8000,
+    tokenBudgetOverride: Number(process.env.HISTORY_TOKEN_BUDGET) || undefined,
+    // 履歴から削った発言がこのトークン数に達したら会話の要約を作り直す
+    summaryThreshold: Number(process.env.SUMMARY_THRESHOLD_TOKENS) || 2000,
+  },
+  attachments: {
+    // Geminiへのリクエストは合計20MBまでのため、本文の分を残しておく
+    maxFileSize: 10 * 1024 * 1024,
+    maxTotalSize: 18 * 1024 * 1024,
+  },
   supabase: {
     url: process.env.SUPABASE_URL,
     anonKey: process.env.SUPABASE_ANON_KEY
@@ -36,5 +81,6 @@ export default {
   graphai: {
     logLevel: 'info',
     enableMonitoring: true,
+    flowDirectory: 'flows',
   }
 };
@@ -2,100 +2,394 @@
  * GraphAIエンジン（Supabase版）
  */
 
-// Node.js v18未満でも動作するようにBlobのpolyfillをグローバルに追加
-import CrossBlob from 'cross-blob';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GraphAI, GraphData } from 'graphai';
+import path from 'path';
+import { randomUUID } from 'crypto';
 import config from './config';
 
 // Supabase サービス
-import ConversationService, { ConversationMessage } from './services/conversation-service';
-import ApiUsageService from './services/api-usage-service';
+import ConversationService, { ConversationMessage, ConversationScope } from './services/conversation-service';
 import BotSettingsService from './services/bot-settings-service';
+import FlowLoader from './services/flow-loader';
+import TraceService from './services/trace-service';
+import TokenBudgetService from './services/token-budget-service';
+import UserMemoryService, { UserMemory } from './services/user-memory-service';
+import ReplyStreamService from './services/reply-stream-service';
+import LlmCallService from './services/llm-call-service';
+import { LlmAttachment, LlmChatRequest, LlmMessage, LlmSelection, LlmToolCall, LlmToolDeclaration, resolveLlmModel } from './services/llm-providers';
+import AttachmentService, { AttachmentInfo } from './services/attachment-service';
 
-// Blob polyfill
-(globalThis as any).Blob = CrossBlob;
+// エージェントレジストリ（組み込みエージェントは読み込み時に登録される）
+import AgentRegistry from './agents';
+import CommandRegistry from './commands';
+import { Agent, DiscordOutput } from './agents/types';
+import { ParsedCommand } from './agents/command-parser-agent';
+import { DetectionResult, MessageContent } from './agents/content-detector-agent';
+import { SearchResult, WebSearchInput } from './agents/web-search-agent';
+import { FormattedText } from './agents/search-result-formatter-agent';
+import { MAX_EMBEDS, SearchEmbedInput, SearchEmbedOutput } from './agents/search-embed-formatter-agent';
+import SearchSessionService from './services/search-session-service';
 
-// Web検索と関連エージェントをインポート
-import WebSearchAgent from './agents/web-search-agent';
-import SearchResultFormatterAgent from './agents/search-result-formatter-agent';
-import CommandParserAgent from './agents/command-parser-agent';
-import ContentDetectorAgent from './agents/content-detector-agent';
+// 1回の応答で許可するツール呼び出しの最大回数
+const MAX_TOOL_CALL_ROUNDS = 3;
 
-// Gemini AIクライアントの初期化
-const genAI = new GoogleGenerativeAI(config.gemini.apiKey as string);
-const model = genAI.getGenerativeModel({ model: config.gemini.model });
+// すべてのモデルの使用量制限に達した場合の応答
+const USAGE_LIMIT_MESSAGE = '本日のAI応答の使用量制限に達しました。明日以降に再度お試しください。';
+
+// 本文なしで添付ファイルだけが送られた場合の質問
+const DEFAULT_ATTACHMENT_QUERY = '添付ファイルの内容を説明してください。';
+
+// 会話履歴に残す添付ファイルの説明を作成するためのプロンプト
+const ATTACHMENT_CAPTION_PROMPT = '添付ファイルの内容を、後から会話で参照できるように日本語で1〜2文ずつ簡潔に説明してください。';
+
+// 複数人で共有する会話でモデルに伝える説明
+const SHARED_CONVERSATION_NOTE = 'この会話には複数の参加者がいます。ユーザーの発言は「名前: 内容」の形式で渡されます。';
+
+// 会話の要約をモデルに渡す際の前置き
+const SUMMARY_PREAMBLE = '以下はこれより前の会話の要約です。必要に応じて参照してください。';
+
+// ユーザーの記憶をモデルに渡す際の前置き
+const USER_MEMORY_PREAMBLE = (name: string) => `${name}さんについて覚えていること（会話に関係する場合のみ参考にしてください）:`;
+
+// 1回の発言から自動的に記憶する最大件数
+const MAX_EXTRACTED_MEMORIES = 3;
+
+// 会話からユーザーの事実や好みを取り出すためのプロンプト
+const MEMORY_EXTRACTION_PROMPT = [
+  'ユーザーの発言から、今後の会話でも役立つユーザー自身についての長く続く事実や好み（名前・言語・仕事・興味など）を取り出してください。',
+  '一時的な質問の内容や、すでに記憶していることは含めないでください。',
+  `取り出した内容は1件ずつ短い日本語の文にして、{"memories": [...]} の形式のJSONの文字列配列で最大${MAX_EXTRACTED_MEMORIES}件出力してください。ない場合は {"memories": []} を出力してください。`
+].join('\n');
+
+// 履歴から削った発言を会話の要約にまとめるためのプロンプト
+const SUMMARY_PROMPT = [
+  'あなたは会話の記録係です。これまでの要約と新しい会話をもとに、更新した要約を日本語で作成してください。',
+  'ユーザーの名前・好み・決まったこと・続いている話題など、後の会話で役立つ情報を優先し、要約だけを箇条書きで800文字以内で出力してください。'
+].join('\n');
+
+/**
+ * 会話履歴のメッセージをモデルに渡すテキストにする
+ * 共有の会話でのユーザーの発言には発言者の名前を付ける
+ * @param message 会話メッセージ
+ * @returns モデルに渡すテキスト
+ */
+function formatSpeaker(message: ConversationMessage): string {
+  return message.role === 'user' && message.name ? `${message.name}: ${message.content}` : message.content;
+}
+
+/**
+ * 会話履歴のメッセージをLLMプロバイダーの会話の形式にする
+ * @param message 会話メッセージ
+ * @returns 会話のメッセージ
+ */
+function toLlmMessage(message: ConversationMessage): LlmMessage {
+  return {
+    role: message.role === 'user' ? 'user' : 'assistant',
+    content: formatSpeaker(message)
+  };
+}
+
+// モデルに公開するツール（関数名はエージェントレジストリの名前と一致させる）
+const TOOL_DECLARATIONS: LlmToolDeclaration[] = [
+  {
+    name: 'webSearchAgent',
+    description: '最新の情報や事実確認が必要なときにウェブ検索を行います。検索結果のタイトル・URL・概要を返します。',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: '検索クエリ'
+        },
+        freshness: {
+          type: 'string',
+          description: '期間の絞り込み（pd: 24時間, pw: 1週間, pm: 1ヶ月, py: 1年）'
+        }
+      },
+      required: ['query']
+    }
+  }
+];
+
+// ヘルプメッセージ（コマンド一覧はコマンドレジストリから作成する）
+const HELP_HEADER = `# ボッチー ヘルプ
+
+こんにちは！ボッチーです。GraphAI技術を活用した会話ボットです。
+以下の機能が利用可能です：`;
+
+const HELP_FEATURES = `**機能:**
+- テキスト対話処理 - Gemini・OpenAIのモデルによる自然な会話（askコマンドの \`--model\` でモデルを指定できます）
+- ウェブ検索 - 最新の情報をウェブから検索します
+- 画像生成 - 説明文から画像を生成します
+- 画像・PDF分析 - 添付した画像やPDFの内容について質問できます
+
+GraphAI技術を活用した高度な会話をお楽しみください！`;
+
+// チャットの入力
+interface ChatInput {
+  query: string;
+  userId: string;
+  username?: string;
+  attachments?: AttachmentInfo[];
+  guildId?: string;
+  channelId?: string;
+  // 会話履歴の範囲（省略時はユーザーごと）
+  conversation?: ConversationScope;
+  // 生成しながら更新する返信のID（discordInputのmessageId）
+  streamId?: string;
+  // 使用するモデル名またはプロバイダー名（省略時はサーバー・チャンネルの設定）
+  model?: string;
+}
+
+/**
+ * Geminiチャットエージェント
+ */
+const GeminiChatAgent: Agent<ChatInput, FormattedText> = {
+  name: 'geminiChatAgent',
+  description: 'Gemini・OpenAIのモデルで会話履歴を踏まえた応答を生成します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string' },
+      userId: { type: 'string' },
+      username: { type: 'string' },
+      attachments: { type: 'array', description: '画像・PDFの添付ファイル' },
+      guildId: { type: 'string', description: 'サーバーID（サーバー・チャンネルの設定を使う）' },
+      channelId: { type: 'string' },
+      conversation: { type: 'object', description: 'conversationScopeAgentの会話履歴の範囲' },
+      streamId: { type: 'string', description: '生成しながら更新する返信のID' },
+      model: { type: 'string', description: '使用するモデル名またはプロバイダー名' }
+    },
+    required: ['query', 'userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text']
+  },
+  async process(input) {
+    return { text: await engine.processText(input) };
+  }
+};
+
+/**
+ * ヘルプエージェント
+ */
+const HelpAgent: Agent<{ prefix?: string }, FormattedText> = {
+  name: 'helpAgent',
+  description: 'ヘルプメッセージを返します',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: { prefix: { type: 'string', description: 'サーバー・チャンネルのプレフィックス' } }
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text']
+  },
+  async process({ prefix = config.discord.prefix || '!' }) {
+    const agentList = AgentRegistry.listAgents()
+      .map(agent => `- \`${agent.name}\` (v${agent.version}) - ${agent.description}`)
+      .join('\n');
+    
+    const commandList = CommandRegistry.formatHelp(prefix);
+    
+    return {
+      text: [
+        HELP_HEADER,
+        `**コマンド:**\n${commandList}`,
+        '**スラッシュコマンド:**\n上記のコマンドは `/help` のようにスラッシュコマンドとしても利用できます',
+        HELP_FEATURES,
+        `**利用可能なエージェント:**\n${agentList}`
+      ].join('\n\n')
+    };
+  }
+};
+
+/**
+ * 会話履歴クリアエージェント
+ */
+const ClearHistoryAgent: Agent<{ userId: string; conversation?: ConversationScope }, FormattedText> = {
+  name: 'clearHistoryAgent',
+  description: '会話履歴（DM・チャンネル・スレッドの範囲）をクリアします',
+  version: '1.1.0',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      userId: { type: 'string' },
+      conversation: { type: 'object', description: '会話履歴の範囲' }
+    },
+    required: ['userId']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text']
+  },
+  async process({ userId, conversation = ConversationService.getScope({ userId }) }) {
+    const cleared = await ConversationService.clearConversationHistory(conversation.key);
+    return {
+      text: cleared ?
+        (conversation.shared ?
+          'この会話の履歴をクリアしました（参加者全員の履歴がクリアされます）。新しい会話を始めましょう！' :
+          '会話履歴をクリアしました。新しい会話を始めましょう！') :
+        '会話履歴のクリアに失敗しました。'
+    };
+  }
+};
+
+/**
+ * 分岐の合流エージェント
+ * anyInputのノードで使用し、最初に到着した値をそのまま返す
+ */
+const SelectFirstAgent: Agent<{ candidates: any[] }, any> = {
+  name: 'selectFirstAgent',
+  description: '候補のうち最初に得られた値を返します（分岐の合流用）',
+  version: '1.0.0',
+  inputSchema: {
+    type: 'object',
+    properties: { candidates: { type: 'array' } },
+    required: ['candidates']
+  },
+  outputSchema: {},
+  async process({ candidates }) {
+    return candidates[0];
+  }
+};
+
+AgentRegistry.register(GeminiChatAgent);
+AgentRegistry.register(HelpAgent);
+AgentRegistry.register(ClearHistoryAgent);
+AgentRegistry.register(SelectFirstAgent);
 
 // エンジン定義
 const engine = {
+  // 登録済みのフロー（フロー名 → GraphAIのグラフ定義）
+  flows: {} as Record<string, GraphData>,
+
+  /**
+   * フロー定義を読み込んで登録する
+   * 起動時に呼び出す。定義に誤りがある場合はファイル名とノード名を含むエラーを投げる
+   */
+  async initialize(): Promise<void> {
+    const directory = path.join(process.cwd(), config.graphai.flowDirectory);
+    this.flows = await FlowLoader.loadFlows(directory, AgentRegistry.toGraphAIAgents());
+    
+    console.log(`📄 フローを登録しました: ${Object.keys(this.flows).join(', ')}`);
+  },
+
   /**
    * テキスト処理を行う関数
    * @param input 入力パラメータ
    * @returns AIの応答
    */
-  async processText(input: { query: string; userId: string; username?: string }): Promise<string> {
-    const { query, userId, username = 'ユーザー' } = input;
+  async processText(input: ChatInput): Promise<string> {
+    const { userId, username = 'ユーザー', attachments = [], guildId, channelId } = input;
+    const conversation = input.conversation || ConversationService.getScope({ userId });
+    const query = input.query || (attachments.length > 0 ? DEFAULT_ATTACHMENT_QUERY : '');
     
     try {
-      // API使用量をトラッキング
-      await ApiUsageService.trackApiUsage('gemini');
+      // サーバー・チャンネルの設定を取得し、使用するモデルを決める（--modelの指定を優先する）
+      const botConfig = await BotSettingsService.getBotConfig(guildId, channelId);
+      const selection = await resolveLlmModel(input.model || botConfig.model);
+      if (!selection) {
+        return `モデル「${input.model || botConfig.model}」は利用できません。`;
+      }
+      
+      // 画像・PDFをダウンロードしてインラインデータにする
+      const { parts: attachmentParts, loaded, skipped } = await AttachmentService.loadAttachments(attachments);
+      const attachmentData: LlmAttachment[] = attachmentParts.map(part => part.inlineData);
       
       // 会話履歴の取得
-      let history = await ConversationService.getConversationHistory(userId);
+      let history = await ConversationService.getConversationHistory(conversation.key);
       
-      // 新しいメッセージを履歴に追加
+      // 新しいメッセージを履歴に追加（共有の会話では発言者を残す）
       history.push({
         role: 'user',
         content: query,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        ...(conversation.shared ? { userId, name: username } : {})
       });
       
-      // システムプロンプトを取得
-      const SYSTEM_PROMPT = await BotSettingsService.getSystemPrompt();
+      // サーバー・チャンネルの設定を反映したシステムプロンプトを取得
+      const basePrompt = await BotSettingsService.getSystemPrompt(botConfig);
       
-      // 会話の初期化
-      const chat = model.startChat({
-        history: history.length > 1 ? history.slice(0, -1).map((msg: ConversationMessage) => ({
-          role: msg.role === 'user' ? 'user' : 'model',
-          parts: [{ text: msg.content }]
-        })) : [],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 2048,
-        },
-        safetySettings: [
-          {
-            category: 'HARM_CATEGORY_HARASSMENT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_HATE_SPEECH',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          }
-        ]
-      });
+      // 共有の会話の説明・ユーザーの記憶・これまでの会話の要約をシステムプロンプトに加える
+      const summary = await ConversationService.getConversationSummary(conversation.key);
+      const memories = await UserMemoryService.listMemories(userId);
+      const relevantMemories = UserMemoryService.selectRelevant(memories, query);
+      const SYSTEM_PROMPT = [
+        basePrompt,
+        conversation.shared ? SHARED_CONVERSATION_NOTE : '',
+        relevantMemories.length > 0 ?
+          `${USER_MEMORY_PREAMBLE(username)}\n${relevantMemories.map(memory => `- ${memory.content}`).join('\n')}` :
+          '',
+        summary.summary ? `${SUMMARY_PREAMBLE}\n${summary.summary}` : ''
+      ].filter(Boolean).join('\n\n');
+      
+      // 履歴をモデルのトークン数の上限に収める（システムプロンプトと最新の発言は必ず残す）
+      const { kept, dropped } = await TokenBudgetService.trimToBudget(selection, history, SYSTEM_PROMPT, toLlmMessage);
+      history = kept;
+      
+      // ツール呼び出し（モデルによる検索判断）の有効・無効
+      const toolCalling = botConfig.tool_calling && botConfig.search_enabled;
+      
+      // 最新の発言には添付ファイルを付けて送信する（システムプロンプトは毎回渡す）
+      const messages: LlmMessage[] = [
+        ...history.slice(0, -1).map(toLlmMessage),
+        { role: 'user', content: formatSpeaker(history[history.length - 1]), attachments: attachmentData }
+      ];
+      const request: LlmChatRequest = {
+        model: selection.model,
+        systemInstruction: SYSTEM_PROMPT,
+        messages,
+        tools: toolCalling ? TOOL_DECLARATIONS : undefined
+      };
+      
+      // フローの実行中に返信が登録されている場合は、応答を生成しながら返信を更新する
+      const stream = ReplyStreamService.get(input.streamId);
+      await stream?.start();
       
-      // プロンプトの準備
-      let prompt = query;
+      // 使用量制限の確認・再試行・予備のモデルへの切り替えはLlmCallServiceで行う
+      const onText = (text: string) => stream?.update(text);
+      let response = await LlmCallService.stream(selection, request, onText, { userId, requestType: 'text', content: query });
       
-      // システムプロンプトを初回の会話のみ追加
-      if (history.length <= 1) {
-        prompt = `${SYSTEM_PROMPT}\n\nユーザー: ${query}`;
+      // モデルがツールを要求した場合は実行結果を返して応答を続けさせる
+      for (let round = 0; round < MAX_TOOL_CALL_ROUNDS && response && response.toolCalls.length > 0; round++) {
+        const results = await Promise.all(response.toolCalls.map(call => this.executeToolCall(call)));
+        messages.push(
+          { role: 'assistant', content: response.text, toolCalls: response.toolCalls },
+          ...response.toolCalls.map((call, index): LlmMessage => ({
+            role: 'tool',
+            toolCallId: call.id,
+            name: call.name,
+            response: results[index]
+          }))
+        );
+        response = await LlmCallService.stream(selection, request, onText,
+          { userId, requestType: 'tool_result', content: JSON.stringify(results).length });
       }
       
-      // テキストメッセージの処理
-      const result = await chat.sendMessage(prompt);
-      const response = await result.response;
-      const text = response.text();
+      if (!response) {
+        return USAGE_LIMIT_MESSAGE;
+      }
+      
+      let text = response.text;
+      
+      // 添付ファイルはデータの代わりに名前と説明を履歴に残し、後の質問で参照できるようにする
+      if (loaded.length > 0) {
+        const caption = await this.describeAttachments(selection, attachmentData, userId);
+        const names = loaded.map(attachment => attachment.name).join(', ');
+        history[history.length - 1].content = `${query}\n[添付ファイル: ${names}]${caption ? `\n（内容: ${caption}）` : ''}`;
+      }
+      
+      // 読み込めなかった添付ファイルを知らせる
+      if (skipped.length > 0) {
+        const maxSizeMB = config.attachments.maxFileSize / 1024 / 1024;
+        text += `\n\n※ ${skipped.map(attachment => attachment.name).join(', ')} は読み込めませんでした（対応形式: PNG/JPEG/WebP/HEIC/PDF、1ファイル${maxSizeMB}MBまで）`;
+      }
       
       // AIの返答を履歴に追加
       history.push({
@@ -104,13 +398,166 @@ const engine = {
         timestamp: new Date().toISOString()
       });
       
+      // 設定が有効な場合は、発言からユーザーの事実や好みを取り出して記憶する
+      if (botConfig.auto_memory && input.query) {
+        await this.extractMemories(selection, userId, input.query, memories);
+      }
+      
+      // 削った古い発言は会話の要約にまとめる
+      await ConversationService.foldIntoSummary(conversation.key, summary, dropped,
+        (current, messages) => this.summarizeConversation(selection, current, messages, userId));
+      
       // 会話履歴の保存
-      await ConversationService.saveConversationHistory(userId, history);
+      await ConversationService.saveConversationHistory(conversation.key, history, userId);
       
       return text;
     } catch (error: any) {
-      console.error('Gemini API Error:', error);
-      return `AIモデルとの通信中にエラーが発生しました: ${error.message}`;
+      console.error('LLM API Error:', error);
+      
+      // 予備のモデルでも応答できなかった場合は、エラーの種類に応じて知らせる
+      return LlmCallService.toUserMessage(error);
+    }
+  },
+
+  /**
+   * 会話以外の1回の生成を行う関数（説明文・記憶・要約の作成用）
+   * 使用量制限を確認してから呼び出し、api_logsに記録する（失敗した場合は予備のモデルに切り替える）
+   * @param selection プロバイダーとモデル
+   * @param prompt 指示
+   * @param usage 記録する情報
+   * @param options 添付ファイル・出力形式
+   * @returns 生成したテキスト（使用量制限に達している場合はnull）
+   */
+  async generateText(
+    selection: LlmSelection,
+    prompt: string,
+    usage: { userId?: string; requestType: string },
+    options: { attachments?: LlmAttachment[]; responseFormat?: 'text' | 'json' } = {}
+  ): Promise<string | null> {
+    const response = await LlmCallService.chat(selection, {
+      model: selection.model,
+      messages: [{ role: 'user', content: prompt, attachments: options.attachments }],
+      responseFormat: options.responseFormat
+    }, { ...usage, content: prompt });
+    
+    if (!response) {
+      console.warn(`Daily usage limit reached, skipping ${usage.requestType}`);
+      return null;
+    }
+    
+    return response.text;
+  },
+
+  /**
+   * 会話履歴に残すための添付ファイルの説明を作成する関数
+   * @param selection プロバイダーとモデル
+   * @param attachments 添付ファイルのデータ
+   * @param userId ユーザーID（api_logsの記録用）
+   * @returns 説明文（失敗した場合は空文字）
+   */
+  async describeAttachments(selection: LlmSelection, attachments: LlmAttachment[], userId?: string): Promise<string> {
+    try {
+      const caption = await this.generateText(selection, ATTACHMENT_CAPTION_PROMPT,
+        { userId, requestType: 'attachment_caption' }, { attachments });
+      return caption?.trim() || '';
+    } catch (error) {
+      console.error('Attachment caption error:', error);
+      return '';
+    }
+  },
+
+  /**
+   * ユーザーの発言から事実や好みを取り出して記憶する関数
+   * @param selection プロバイダーとモデル
+   * @param userId ユーザーID
+   * @param query ユーザーの発言
+   * @param memories すでに記憶していること
+   * @returns 新しく記憶した内容
+   */
+  async extractMemories(selection: LlmSelection, userId: string, query: string, memories: UserMemory[]): Promise<string[]> {
+    try {
+      const extracted = await this.generateText(selection, [
+        MEMORY_EXTRACTION_PROMPT,
+        `【すでに記憶していること】\n${memories.map(memory => `- ${memory.content}`).join('\n') || '（なし）'}`,
+        `【ユーザーの発言】\n${query}`
+      ].join('\n\n'), { userId, requestType: 'memory_extraction' }, { responseFormat: 'json' });
+      
+      const facts = extracted ? JSON.parse(extracted).memories : [];
+      if (!Array.isArray(facts)) {
+        return [];
+      }
+      
+      const added: string[] = [];
+      for (const fact of facts.filter(fact => typeof fact === 'string').slice(0, MAX_EXTRACTED_MEMORIES)) {
+        const memory = await UserMemoryService.addMemory(userId, fact, 'auto');
+        if (memory) {
+          added.push(memory.content);
+        }
+      }
+      
+      return added;
+    } catch (error) {
+      console.error('Memory extraction error:', error);
+      return [];
+    }
+  },
+
+  /**
+   * これまでの要約と履歴から削った発言から、会話の要約を作成する関数
+   * @param selection プロバイダーとモデル
+   * @param summary これまでの要約
+   * @param messages 履歴から削った発言
+   * @param userId ユーザーID（api_logsの記録用）
+   * @returns 更新した要約（失敗した場合はnull）
+   */
+  async summarizeConversation(
+    selection: LlmSelection,
+    summary: string | null,
+    messages: ConversationMessage[],
+    userId?: string
+  ): Promise<string | null> {
+    try {
+      const conversationText = messages
+        .map(message => `${message.role === 'user' ? message.name || 'ユーザー' : 'アシスタント'}: ${message.content}`)
+        .join('\n');
+      
+      const updated = await this.generateText(selection, [
+        SUMMARY_PROMPT,
+        `【これまでの要約】\n${summary || '（なし）'}`,
+        `【新しい会話】\n${conversationText}`
+      ].join('\n\n'), { userId, requestType: 'summary' });
+      return updated?.trim() || null;
+    } catch (error) {
+      console.error('Conversation summary error:', error);
+      return null;
+    }
+  },
+
+  /**
+   * モデルから要求されたツールを実行する関数
+   * @param call ツール呼び出し
+   * @returns モデルに返す実行結果
+   */
+  async executeToolCall(call: LlmToolCall): Promise<Record<string, any>> {
+    console.log('Tool call requested:', call.name, call.args);
+    
+    try {
+      if (call.name === 'webSearchAgent') {
+        const searchResults = await AgentRegistry.require<WebSearchInput, SearchResult>('webSearchAgent')
+          .process(call.args as WebSearchInput);
+        const formatted = await AgentRegistry.require<{ searchResults: SearchResult }, FormattedText>('searchResultFormatterAgent')
+          .process({ searchResults });
+        
+        return {
+          results: formatted.text,
+          instruction: '検索結果をもとに回答し、参照した情報には [1] のような番号を付け、回答の末尾に番号とURLの一覧を載せてください。'
+        };
+      }
+      
+      return { error: `Unknown tool: ${call.name}` };
+    } catch (error: any) {
+      console.error('Tool call error:', error);
+      return { error: error.message || String(error) };
     }
   },
 
@@ -122,38 +569,56 @@ const engine = {
   async processWebSearch(query: string): Promise<string> {
     console.log('Processing web search for query:', query);
     try {
-      // API使用量をトラッキング
-      await ApiUsageService.trackApiUsage('brave');
-      
-      // 日々の制限を確認
-      const dailyLimit = await BotSettingsService.getApiLimit('brave');
-      const dailyUsage = await ApiUsageService.getDailyUsage('brave');
-      
-      if (dailyUsage >= dailyLimit) {
-        return `申し訳ありませんが、本日のウェブ検索APIの使用量制限(${dailyLimit}回)に達しました。明日以降に再度お試しください。`;
-      }
-      
       // WebSearchAgentを使用して検索を実行
-      const searchResults = await WebSearchAgent.process(query);
+      const searchResults = await AgentRegistry.require<{ query: string }, SearchResult>('webSearchAgent').process({ query });
       
       // 検索結果をフォーマット
-      const formattedResults = await SearchResultFormatterAgent.process(searchResults);
+      const formattedResults = await AgentRegistry.require<{ searchResults: SearchResult }, FormattedText>('searchResultFormatterAgent')
+        .process({ searchResults });
       
-      return formattedResults;
+      return formattedResults.text;
     } catch (error: any) {
       console.error('Web search processing error:', error);
       return `ウェブ検索中にエラーが発生しました: ${error.message || error}`;
     }
   },
   
+  /**
+   * 保存された検索セッションの別のページを取得する関数
+   * @param sessionId 検索セッションID
+   * @param offset ページ（0始まり）
+   * @returns 埋め込みとボタン（セッションが見つからない場合はnull）
+   */
+  async paginateSearch(sessionId: string, offset: number): Promise<SearchEmbedOutput | null> {
+    const session = await SearchSessionService.getSession(sessionId);
+    
+    if (!session) {
+      return null;
+    }
+    
+    try {
+      // 埋め込みの上限より多い件数で保存されたセッションは、上限の件数ずつページ送りする
+      const count = session.options.count && Math.min(session.options.count, MAX_EMBEDS);
+      const options = { ...session.options, count, offset };
+      const searchResults = await AgentRegistry.require<WebSearchInput, SearchResult>('webSearchAgent')
+        .process({ query: session.query, ...options });
+      
+      return await AgentRegistry.require<SearchEmbedInput, SearchEmbedOutput>('searchEmbedFormatterAgent')
+        .process({ searchResults, options, sessionId });
+    } catch (error: any) {
+      console.error('Search pagination error:', error);
+      return { text: `ウェブ検索中にエラーが発生しました: ${error.message || error}` };
+    }
+  },
+  
   /**
    * コマンドを解析する関数
    * @param message メッセージ内容
    * @returns 解析結果
    */
-  async parseCommand(message: string): Promise<any> {
+  async parseCommand(message: string): Promise<ParsedCommand> {
     try {
-      return await CommandParserAgent.process(message);
+      return await AgentRegistry.require<{ message: string }, ParsedCommand>('commandParserAgent').process({ message });
     } catch (error) {
       console.error('Command parsing error:', error);
       return { command: 'chatDefault', args: message };
@@ -165,9 +630,9 @@ const engine = {
    * @param message メッセージオブジェクト
    * @returns 検出結果
    */
-  async detectContentType(message: any): Promise<any> {
+  async detectContentType(message: MessageContent): Promise<DetectionResult> {
     try {
-      return await ContentDetectorAgent.process(message);
+      return await AgentRegistry.require<MessageContent, DetectionResult>('contentDetectorAgent').process(message);
     } catch (error) {
       console.error('Content detection error:', error);
       return { hasImage: false, isWebSearchQuery: false };
@@ -175,7 +640,7 @@ const engine = {
   },
   
   /**
-   * フローを実行する関数（GraphAI代替の簡易実装）
+   * フローを実行する関数
    * @param flowName フロー名
    * @param inputs 入力パラメータ
    * @returns 実行結果
@@ -183,88 +648,60 @@ const engine = {
   async execute(flowName: string, inputs: any): Promise<any> {
     console.log(`Executing flow: ${flowName} with inputs:`, inputs);
     
-    if (flowName === 'main') {
-      // ユーザー入力の処理
-      if (inputs.discordInput) {
-        // コマンドの解析
-        const parsedCommand = await this.parseCommand(inputs.discordInput.content);
-        console.log('Parsed command:', parsedCommand);
-        
-        // コマンドに基づいて処理を分岐
-        if (parsedCommand.command === 'webSearch') {
-          // Web検索コマンドの処理
-          const searchQuery = parsedCommand.args;
-          const searchResponse = await this.processWebSearch(searchQuery);
-          return {
-            discordOutput: searchResponse
-          };
-        } else if (parsedCommand.command === 'help') {
-          // ヘルプコマンドの処理
-          return {
-            discordOutput: `# ボッチー ヘルプ
-
-こんにちは！ボッチーです。GraphAI技術を活用した会話ボットです。
-以下の機能が利用可能です：
-
-**基本コマンド:**
-- \`!help\` - このヘルプメッセージを表示します
-- \`!search [検索キーワード]\` - ウェブ検索を実行します
-- \`/clear\` - 会話履歴をクリアします
-
-**機能:**
-- テキスト対話処理 - Gemini 2.0 Flash AIによる自然な会話
-- ウェブ検索 - 最新の情報をウェブから検索します
-- 画像分析 - 画像に関する質問に答えることができます（近日実装）
-
-GraphAI技術を活用した高度な会話をお楽しみください！`
-          };
-        } else if (parsedCommand.command === 'clearChat') {
-          // 会話履歴クリアコマンドの処理
-          const cleared = await ConversationService.clearConversationHistory(inputs.discordInput.authorId);
-          return {
-            discordOutput: cleared ? 
-              '会話履歴をクリアしました。新しい会話を始めましょう！' : 
-              '会話履歴のクリアに失敗しました。'
-          };
-        } else {
-          // コンテンツタイプを検出
-          const contentType = await this.detectContentType(inputs.discordInput);
-          console.log('Detected content type:', contentType);
-          
-          // ウェブ検索クエリの場合は検索を実行
-          if (contentType.isWebSearchQuery) {
-            console.log('Detected web search query, performing search...');
-            const searchResponse = await this.processWebSearch(inputs.discordInput.content);
-            return {
-              discordOutput: searchResponse
-            };
-          }
-          
-          // 通常のチャットメッセージとして処理
-          const response = await this.processText({
-            query: inputs.discordInput.content,
-            userId: inputs.discordInput.authorId,
-            username: inputs.discordInput.username
-          });
-          
-          return {
-            discordOutput: response
-          };
-        }
-      }
-    } else if (flowName === 'web-search') {
-      // ウェブ検索フローの実行
-      const searchQuery = inputs.query;
-      const searchResults = await this.processWebSearch(searchQuery);
-      
+    const flow = this.flows[flowName];
+    
+    // 入力名と一致する静的ノードに値を注入する
+    const inputNodeIds = flow && inputs ?
+      Object.keys(inputs).filter(key => flow.nodes[key] && 'value' in flow.nodes[key]) :
+      [];
+    
+    if (!flow || inputNodeIds.length === 0) {
       return {
-        discordOutput: searchResults
+        error: 'Invalid flow or inputs'
       };
     }
     
-    return {
-      error: 'Invalid flow or inputs'
-    };
+    // 実行トレースの準備
+    const runId = randomUUID();
+    const startTime = Date.now();
+    const graph = new GraphAI(flow, AgentRegistry.toGraphAIAgents());
+    let result: any;
+    
+    try {
+      // GraphAIでフローを実行
+      inputNodeIds.forEach(nodeId => graph.injectValue(nodeId, inputs[nodeId]));
+      const results = await graph.run();
+      
+      const output = results.discordOutput as DiscordOutput | undefined;
+      
+      result = {
+        discordOutput: output?.text,
+        files: output?.files,
+        embeds: output?.embeds,
+        components: output?.components,
+        runId
+      };
+    } catch (error: any) {
+      console.error(`Flow execution error (${flowName}):`, error);
+      result = {
+        error: error.message || String(error),
+        runId
+      };
+    }
+    
+    // ノードごとの実行記録を保存
+    await TraceService.saveTrace({
+      runId,
+      flowName,
+      messageId: inputs.discordInput?.messageId,
+      userId: inputs.discordInput?.authorId,
+      startedAt: new Date(startTime).toISOString(),
+      durationMs: Date.now() - startTime,
+      ...TraceService.buildTraceNodes(flow, graph.transactionLogs()),
+      error: result.error
+    });
+    
+    return result;
   },
   
   /**
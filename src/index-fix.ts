@@ -8,7 +8,6 @@
  */
 
 // 基本インポート
-import Blob from 'cross-blob';
 import { Client, GatewayIntentBits, ChannelType, Partials } from 'discord.js';
 import dotenv from 'dotenv';
 import fs from 'fs/promises';
@@ -19,9 +18,13 @@ import supabase from './db/supabase';
 
 // GraphAIエンジンを直接インポート（動的インポートからの変更）
 import graphaiEngine from './graphai-engine';
-
-// グローバルにBlobを設定
-(globalThis as any).Blob = Blob;
+import ReplyService from './services/reply-service';
+import ReplyStreamService from './services/reply-stream-service';
+import PresenceService from './services/presence-service';
+import SlashCommandService from './services/slash-command-service';
+import BotSettingsService from './services/bot-settings-service';
+import GuildAccessService from './services/guild-access-service';
+import { SEARCH_BUTTON_PREFIX } from './agents/search-embed-formatter-agent';
 
 // 環境変数の読み込み
 dotenv.config();
@@ -129,6 +132,22 @@ client.on('messageCreate', async (message) => {
     return;
   }
 
+  // 許可されていないサーバーでは応答せずに退出する
+  if (message.guild && !(await GuildAccessService.enforce(message.guild))) {
+    console.log("Message ignored: Guild is not allowed");
+    return;
+  }
+
+  // サーバー・チャンネルの設定で応答するチャンネルが限定されている場合は、それ以外のチャンネルでは応答しない
+  if (message.guild) {
+    const botConfig = await BotSettingsService.getBotConfig(message.guild.id, message.channelId);
+    const parentId = message.channel.isThread() ? message.channel.parentId : null;
+    if (!BotSettingsService.isChannelAllowed(botConfig, message.channelId, parentId)) {
+      console.log("Message ignored: Channel is not in allowed_channels");
+      return;
+    }
+  }
+
   console.log("Message will be processed: Meets bot interaction criteria");
 
   try {
@@ -142,35 +161,47 @@ client.on('messageCreate', async (message) => {
     
     // GraphAIエンジンを使用（直接インポートに変更）
     try {
+      // 会話の応答は生成しながら返信を更新する（フローの実行中だけ登録する）
+      const stream = ReplyStreamService.open(message.id, ReplyStreamService.messageTarget(message));
+
       // GraphAIエンジンによって処理される各種パラメータをセットアップ
-      const response = await graphaiEngine.process('main', {
+      // 処理中はステータスに処理中の件数を表示し、チャンネルに入力中の表示を出す
+      const result = await PresenceService.track(() => graphaiEngine.execute('main', {
         discordInput: {
+          messageId: message.id,
+          guildId: message.guild?.id,
+          channelId: message.channelId,
+          isBotThread: isThreadReply,
+          memberPermissions: message.member?.permissions.toArray(),
+          memberRoles: message.member ? [...message.member.roles.cache.keys()] : undefined,
           content: cleanContent,
           authorId: message.author.id, 
           username: message.author.username,
           attachments: message.attachments.size > 0 ? 
-            [...message.attachments.values()].map(attachment => attachment.url) : 
+            [...message.attachments.values()].map(attachment => ({
+              url: attachment.url,
+              name: attachment.name,
+              contentType: attachment.contentType || undefined,
+              size: attachment.size
+            })) : 
             []
         }
-      });
+      }), message.channel).finally(() => ReplyStreamService.close(message.id));
+      const response = result.discordOutput ||
+        (result.error ? 'GraphAIエンジンでエラーが発生しました。管理者はログを確認してください。' : undefined);
 
       // 応答の送信
       if (response) {
         console.log(`Replying with: "${typeof response === 'string' ? 
           response.substring(0, 100) : 'Complex response'} ..."`);
           
-        await message.reply(response.toString())
-          .then(() => console.log('Reply sent successfully'))
-          .catch(err => {
-            console.error('Error replying to message:', err);
-            // DMの場合は別のアプローチを試す
-            if (!message.guild) {
-              console.log('Trying alternative approach for DM');
-              message.author.send(response.toString())
-                .then(() => console.log('Direct message sent successfully'))
-                .catch(dmErr => console.error('Failed to send direct message:', dmErr));
-            }
-          });
+        // 長い応答は分割して送信し、添付ファイルや検索結果の埋め込みも送信
+        // 生成しながら返信した場合は、その返信を完成した応答で確定する
+        if (stream.started) {
+          await stream.finish(response.toString(), ReplyService.extrasFromResult(result));
+        } else {
+          await ReplyService.sendReply(message, response.toString(), ReplyService.extrasFromResult(result));
+        }
       }
     } catch (engErr) {
       logAppError('GraphAI Engine Error', engErr);
@@ -184,22 +215,138 @@ client.on('messageCreate', async (message) => {
   }
 });
 
+// スラッシュコマンドイベント（プレフィックスコマンドと同じフローで処理する）
+client.on('interactionCreate', async (interaction) => {
+  if (!interaction.isChatInputCommand()) return;
+
+  try {
+    // 許可されていないサーバーでは応答せずに退出する
+    if (interaction.guild && !(await GuildAccessService.enforce(interaction.guild))) {
+      interaction.reply({ content: 'このサーバーではボットを利用できません。', ephemeral: true })
+        .catch(err => console.error('Failed to send error message:', err));
+      return;
+    }
+
+    // サーバー・チャンネルのプレフィックスで解析できる形式に変換する
+    const botConfig = await BotSettingsService.getBotConfig(interaction.guildId || undefined, interaction.channelId);
+    const input = SlashCommandService.toFlowInput(interaction, botConfig.prefix);
+    if (!input) return;
+
+    // 応答するチャンネルが限定されている場合も、設定を元に戻せるように /config は受け付ける
+    const parentId = interaction.channel?.isThread() ? interaction.channel.parentId : null;
+    if (interaction.guildId && interaction.commandName !== 'config' &&
+        !BotSettingsService.isChannelAllowed(botConfig, interaction.channelId, parentId)) {
+      await interaction.reply({ content: 'このチャンネルでは使用できません。', ephemeral: true });
+      return;
+    }
+
+    // AIの応答には時間がかかるため、先に応答待ちの表示にする
+    await interaction.deferReply();
+
+    // 会話の応答は生成しながら応答を更新する（フローの実行中だけ登録する）
+    const stream = ReplyStreamService.open(interaction.id, ReplyStreamService.interactionTarget(interaction));
+
+    const result = await PresenceService.track(async () => graphaiEngine.execute('main', {
+      discordInput: {
+        messageId: interaction.id,
+        guildId: interaction.guildId || undefined,
+        channelId: interaction.channelId,
+        isBotThread: await SlashCommandService.isInBotThread(interaction),
+        memberPermissions: interaction.memberPermissions?.toArray(),
+        memberRoles: SlashCommandService.getMemberRoles(interaction),
+        content: input.content,
+        authorId: interaction.user.id,
+        username: interaction.user.username,
+        attachments: input.attachments
+      }
+    })).finally(() => ReplyStreamService.close(interaction.id));
+    const response = result.discordOutput ||
+      (result.error ? 'GraphAIエンジンでエラーが発生しました。管理者はログを確認してください。' : '応答を生成できませんでした。');
+
+    if (stream.started) {
+      await stream.finish(response, ReplyService.extrasFromResult(result));
+    } else {
+      await ReplyService.sendInteractionReply(interaction, response, ReplyService.extrasFromResult(result));
+    }
+  } catch (error) {
+    logAppError('Slash Command', error);
+    if (interaction.deferred) {
+      interaction.editReply('処理中に予期せぬエラーが発生しました。管理者はログを確認してください。')
+        .catch(err => console.error('Failed to send error message:', err));
+    }
+  }
+});
+
+// ボタン操作イベント（検索結果のページ送り）
+client.on('interactionCreate', async (interaction) => {
+  if (!interaction.isButton() || !interaction.customId.startsWith(`${SEARCH_BUTTON_PREFIX}:`)) return;
+
+  // カスタムIDは "search:<セッションID>:<offset>"
+  const [, sessionId, offset] = interaction.customId.split(':');
+
+  try {
+    await interaction.deferUpdate();
+
+    const page = await graphaiEngine.paginateSearch(sessionId, Number(offset));
+
+    if (!page) {
+      await interaction.followUp({
+        content: 'この検索結果は利用できなくなりました。もう一度検索してください。',
+        ephemeral: true
+      });
+      return;
+    }
+
+    await interaction.editReply({
+      content: page.text,
+      embeds: page.embeds || [],
+      components: page.components || []
+    });
+  } catch (error) {
+    logAppError('Search Pagination', error);
+  }
+});
+
 // Discordボットのログイン完了
+// サーバーへの参加イベント（許可されていないサーバーからはすぐに退出する）
+client.on('guildCreate', (guild) => {
+  GuildAccessService.enforce(guild)
+    .then(allowed => console.log(allowed ? `Joined guild: ${guild.name} (ID: ${guild.id})` : `Left unauthorized guild: ${guild.name} (ID: ${guild.id})`))
+    .catch(error => console.error(`Failed to check guild access for ${guild.id}:`, error));
+});
+
 client.once('ready', () => {
   console.log(`Logged in as ${client.user?.tag}`);
   console.log(`Bot is ready with intents: IntentsBitField { bitfield: ${client.options.intents.bitfield} }`);
   console.log(`Using Supabase URL: ${process.env.SUPABASE_URL?.slice(0, 20)}...`);
 
+  // ステータスを設定（以降は処理中のリクエストの数に合わせて更新する）
+  PresenceService.attach(client);
+
   // サーバー情報の表示
   console.log(`Connected to ${client.guilds.cache.size} server(s):`);
   client.guilds.cache.forEach(guild => {
     console.log(`- ${guild.name} (ID: ${guild.id})`);
   });
+
+  // 許可されていないサーバーから退出する（LEAVE_UNAUTHORIZED_ON_STARTUP=trueの場合のみ）
+  if (process.env.LEAVE_UNAUTHORIZED_ON_STARTUP === 'true') {
+    client.guilds.cache.forEach(guild => {
+      GuildAccessService.enforce(guild)
+        .catch(error => console.error(`Failed to check guild access for ${guild.id}:`, error));
+    });
+  }
+
+  // スラッシュコマンドの登録（内容が変わった場合のみ更新）
+  SlashCommandService.syncCommands(process.env.DISCORD_CLIENT_ID || client.user!.id)
+    .then(updated => console.log(updated ? 'Slash commands registered' : 'Slash commands are up to date'))
+    .catch(error => console.error('Failed to register slash commands:', error));
 });
 
-// ボットログイン
+// フロー定義の読み込み後にボットログイン
 try {
-  client.login(process.env.DISCORD_TOKEN)
+  graphaiEngine.initialize()
+    .then(() => client.login(process.env.DISCORD_TOKEN))
     .then(() => console.log("Bot login successful"))
     .catch(error => {
       logAppError('Login Failed', error);
@@ -3,9 +3,7 @@
  * Supabase版
  */
 
-// Blobのインポート
-import Blob from 'cross-blob';
-import { Client, GatewayIntentBits, ChannelType, Partials, ActivityType } from 'discord.js';
+import { Client, GatewayIntentBits, ChannelType, Partials } from 'discord.js';
 import dotenv from 'dotenv';
 import fs from 'fs/promises';
 import path from 'path';
@@ -15,13 +13,18 @@ import supabase from './db/supabase';
 import envLoader from './services/env-loader';
 import LogService from './services/log-service';
 import BackupService from './services/backup-service';
+import ReplyService from './services/reply-service';
+import ReplyStreamService from './services/reply-stream-service';
+import PresenceService from './services/presence-service';
+import SlashCommandService from './services/slash-command-service';
+import BotSettingsService from './services/bot-settings-service';
+import GuildAccessService from './services/guild-access-service';
+import { resolveLlmModel } from './services/llm-providers';
+import { SEARCH_BUTTON_PREFIX } from './agents/search-embed-formatter-agent';
 
 // APIサーバー
 import { startServer } from './api/server';
 
-// グローバルにBlobを設定
-(globalThis as any).Blob = Blob;
-
 // 環境変数の読み込み（.envファイルとデータベース）
 dotenv.config();
 
@@ -58,6 +61,17 @@ async function main() {
     // バックアップサービスの初期化
     await BackupService.initialize();
     
+    // GraphAIフロー定義の読み込み（定義に誤りがある場合は起動を中止）
+    const { default: graphaiEngine } = await import('./graphai-engine');
+    await graphaiEngine.initialize();
+    
+    // 標準のモデルを記録（gemini_settingsの提供が終了したモデル名はここで置き換わる）
+    const defaultModel = await resolveLlmModel();
+    await LogService.info('ai', '標準のモデルを確認しました', {
+      provider: defaultModel?.provider.name,
+      model: defaultModel?.model
+    });
+    
     // 起動ログを記録
     await LogService.info('system', 'アプリケーションが起動しました', {
       version: APP_VERSION,
@@ -164,6 +178,23 @@ async function main() {
         return;
       }
 
+      // 許可されていないサーバーでは応答せずに退出する
+      if (message.guild && !(await GuildAccessService.enforce(message.guild))) {
+        return;
+      }
+
+      // サーバー・チャンネルの設定で応答するチャンネルが限定されている場合は、それ以外のチャンネルでは応答しない
+      if (message.guild) {
+        const botConfig = await BotSettingsService.getBotConfig(message.guild.id, message.channelId);
+        const parentId = message.channel.isThread() ? message.channel.parentId : null;
+        if (!BotSettingsService.isChannelAllowed(botConfig, message.channelId, parentId)) {
+          if (process.env.DEBUG_MODE === 'true') {
+            console.log("Message ignored: Channel is not in allowed_channels");
+          }
+          return;
+        }
+      }
+
       // メッセージの処理をログに記録
       await LogService.info('user', 'メッセージを受信しました', {
         userId: message.author.id,
@@ -185,15 +216,6 @@ async function main() {
           console.log(`Processing content: "${cleanContent}"`);
         }
         
-        // ステータス更新
-        client.user?.setPresence({
-          status: 'online',
-          activities: [{
-            name: '考え中...',
-            type: ActivityType.Playing
-          }]
-        });
-        
         // GraphAIエンジンをインポート
         import('./graphai-engine').then(async (module) => {
           const graphaiEngine = module.default;
@@ -201,37 +223,47 @@ async function main() {
           // 処理開始時間を記録
           const startTime = Date.now();
           
+          // 会話の応答は生成しながら返信を更新する（フローの実行中だけ登録する）
+          const stream = ReplyStreamService.open(message.id, ReplyStreamService.messageTarget(message));
+
           // GraphAIエンジンによって処理される各種パラメータをセットアップ
-          const response = await graphaiEngine.process('main', {
+          // 処理中はステータスに処理中の件数を表示し、チャンネルに入力中の表示を出す
+          const result = await PresenceService.track(() => graphaiEngine.execute('main', {
             discordInput: {
+              messageId: message.id,
+              guildId: message.guild?.id,
+              channelId: message.channelId,
+              isBotThread: isThreadReply,
+              memberPermissions: message.member?.permissions.toArray(),
+              memberRoles: message.member ? [...message.member.roles.cache.keys()] : undefined,
               content: cleanContent,
               authorId: message.author.id, 
               username: message.author.username,
               attachments: message.attachments.size > 0 ? 
-                [...message.attachments.values()].map(attachment => attachment.url) : 
+                [...message.attachments.values()].map(attachment => ({
+                  url: attachment.url,
+                  name: attachment.name,
+                  contentType: attachment.contentType || undefined,
+                  size: attachment.size
+                })) : 
                 []
             }
-          });
+          }), message.channel).finally(() => ReplyStreamService.close(message.id));
+          const response = result.discordOutput ||
+            (result.error ? 'GraphAIエンジンでエラーが発生しました。管理者はログを確認してください。' : undefined);
 
           // 処理時間を計算
           const processingTime = Date.now() - startTime;
           
-          // 応答処理をログに記録
+          // 応答処理をログに記録（runIdで実行トレースを参照できる）
           await LogService.info('ai', 'AI処理が完了しました', {
+            runId: result.runId,
+            messageId: message.id,
             userId: message.author.id,
             processingTimeMs: processingTime,
             responseLength: typeof response === 'string' ? response.length : 'complex response'
           });
           
-          // ステータスを戻す
-          client.user?.setPresence({
-            status: 'online',
-            activities: [{
-              name: 'チャット待機中',
-              type: ActivityType.Listening
-            }]
-          });
-
           // 応答の送信
           if (response) {
             if (process.env.DEBUG_MODE === 'true') {
@@ -239,18 +271,13 @@ async function main() {
                 response.substring(0, 100) : 'Complex response'} ..."`);
             }
               
-            await message.reply(response.toString())
-              .then(() => LogService.debug('discord', '返信を送信しました'))
-              .catch(async (err) => {
-                await LogService.error('discord', 'メッセージ返信中にエラーが発生', err);
-                // DMの場合は別のアプローチを試す
-                if (!message.guild) {
-                  await LogService.debug('discord', 'DMへの代替送信を試みます');
-                  message.author.send(response.toString())
-                    .then(() => LogService.debug('discord', 'DMを送信しました'))
-                    .catch(dmErr => LogService.error('discord', 'DM送信中にエラーが発生', dmErr));
-                }
-              });
+            // 長い応答は分割して送信し、生成された画像などは添付ファイル、検索結果は埋め込みとして送信
+            // 生成しながら返信した場合は、その返信を完成した応答で確定する
+            if (stream.started) {
+              await stream.finish(response.toString(), ReplyService.extrasFromResult(result));
+            } else {
+              await ReplyService.sendReply(message, response.toString(), ReplyService.extrasFromResult(result));
+            }
           }
         }).catch(async (error) => {
           await logAppError('GraphAI Engine Import', error);
@@ -264,6 +291,135 @@ async function main() {
       }
     });
 
+    // スラッシュコマンドイベント（プレフィックスコマンドと同じフローで処理する）
+    client.on('interactionCreate', async (interaction) => {
+      if (!interaction.isChatInputCommand()) return;
+
+      try {
+        // 許可されていないサーバーでは応答せずに退出する
+        if (interaction.guild && !(await GuildAccessService.enforce(interaction.guild))) {
+          await interaction.reply({ content: 'このサーバーではボットを利用できません。', ephemeral: true })
+            .catch(err => LogService.error('discord', 'エラーメッセージ送信中にエラーが発生', err));
+          return;
+        }
+
+        // サーバー・チャンネルのプレフィックスで解析できる形式に変換する
+        const botConfig = await BotSettingsService.getBotConfig(interaction.guildId || undefined, interaction.channelId);
+        const input = SlashCommandService.toFlowInput(interaction, botConfig.prefix);
+        if (!input) return;
+
+        // 応答するチャンネルが限定されている場合も、設定を元に戻せるように /config は受け付ける
+        const parentId = interaction.channel?.isThread() ? interaction.channel.parentId : null;
+        if (interaction.guildId && interaction.commandName !== 'config' &&
+            !BotSettingsService.isChannelAllowed(botConfig, interaction.channelId, parentId)) {
+          await interaction.reply({ content: 'このチャンネルでは使用できません。', ephemeral: true });
+          return;
+        }
+
+        // AIの応答には時間がかかるため、先に応答待ちの表示にする
+        await interaction.deferReply();
+
+        await LogService.info('user', 'スラッシュコマンドを受信しました', {
+          userId: interaction.user.id,
+          username: interaction.user.username,
+          command: interaction.commandName,
+          guildName: interaction.guild?.name || 'DM'
+        });
+
+        const { default: graphaiEngine } = await import('./graphai-engine');
+        const startTime = Date.now();
+
+        // 会話の応答は生成しながら応答を更新する（フローの実行中だけ登録する）
+        const stream = ReplyStreamService.open(interaction.id, ReplyStreamService.interactionTarget(interaction));
+
+        // スラッシュコマンドは応答待ちの表示があるため、ステータスの件数にだけ含める
+        const result = await PresenceService.track(async () => graphaiEngine.execute('main', {
+          discordInput: {
+            messageId: interaction.id,
+            guildId: interaction.guildId || undefined,
+            channelId: interaction.channelId,
+            isBotThread: await SlashCommandService.isInBotThread(interaction),
+            memberPermissions: interaction.memberPermissions?.toArray(),
+            memberRoles: SlashCommandService.getMemberRoles(interaction),
+            content: input.content,
+            authorId: interaction.user.id,
+            username: interaction.user.username,
+            attachments: input.attachments
+          }
+        })).finally(() => ReplyStreamService.close(interaction.id));
+        const response = result.discordOutput ||
+          (result.error ? 'GraphAIエンジンでエラーが発生しました。管理者はログを確認してください。' : '応答を生成できませんでした。');
+
+        await LogService.info('ai', 'AI処理が完了しました', {
+          runId: result.runId,
+          messageId: interaction.id,
+          userId: interaction.user.id,
+          processingTimeMs: Date.now() - startTime,
+          responseLength: response.length
+        });
+
+        if (stream.started) {
+          await stream.finish(response, ReplyService.extrasFromResult(result));
+        } else {
+          await ReplyService.sendInteractionReply(interaction, response, ReplyService.extrasFromResult(result));
+        }
+      } catch (error) {
+        await logAppError('Slash Command', error);
+        if (interaction.deferred) {
+          await interaction.editReply('処理中に予期せぬエラーが発生しました。管理者はログを確認してください。')
+            .catch(err => LogService.error('discord', 'エラーメッセージ送信中にエラーが発生', err));
+        }
+      }
+    });
+
+    // ボタン操作イベント（検索結果のページ送り）
+    client.on('interactionCreate', async (interaction) => {
+      if (!interaction.isButton() || !interaction.customId.startsWith(`${SEARCH_BUTTON_PREFIX}:`)) return;
+
+      // カスタムIDは "search:<セッションID>:<offset>"
+      const [, sessionId, offset] = interaction.customId.split(':');
+
+      try {
+        await interaction.deferUpdate();
+
+        const { default: graphaiEngine } = await import('./graphai-engine');
+        const page = await graphaiEngine.paginateSearch(sessionId, Number(offset));
+
+        if (!page) {
+          await interaction.followUp({
+            content: 'この検索結果は利用できなくなりました。もう一度検索してください。',
+            ephemeral: true
+          });
+          return;
+        }
+
+        await interaction.editReply({
+          content: page.text,
+          embeds: page.embeds || [],
+          components: page.components || []
+        });
+
+        await LogService.info('user', '検索結果のページを切り替えました', {
+          userId: interaction.user.id,
+          sessionId,
+          offset: Number(offset)
+        });
+      } catch (error) {
+        await logAppError('Search Pagination', error);
+      }
+    });
+
+    // サーバーへの参加イベント（許可されていないサーバーからはすぐに退出する）
+    client.on('guildCreate', async (guild) => {
+      if (await GuildAccessService.enforce(guild)) {
+        await LogService.info('discord', 'サーバーに参加しました', {
+          guildId: guild.id,
+          guildName: guild.name,
+          memberCount: guild.memberCount
+        });
+      }
+    });
+
     // 定期的なシステムチェック（1時間ごと）
     const hourlyCheck = async () => {
       try {
@@ -304,14 +460,8 @@ async function main() {
         guilds: client.guilds.cache.size
       });
       
-      // ステータスを設定
-      client.user?.setPresence({
-        status: 'online',
-        activities: [{
-          name: 'チャット待機中',
-          type: ActivityType.Listening
-        }]
-      });
+      // ステータスを設定（以降は処理中のリクエストの数に合わせて更新する）
+      PresenceService.attach(client);
       
       // 各種情報を表示
       console.log(`ㅤサーバー数: ${client.guilds.cache.size}`);
@@ -340,6 +490,23 @@ async function main() {
         users: client.users.cache.size
       });
       
+      // 停止中に参加したサーバーや、拒否リストに追加されたサーバーから退出する（LEAVE_UNAUTHORIZED_ON_STARTUP=trueの場合のみ）
+      if (process.env.LEAVE_UNAUTHORIZED_ON_STARTUP === 'true') {
+        for (const guild of client.guilds.cache.values()) {
+          await GuildAccessService.enforce(guild);
+        }
+      }
+      
+      // スラッシュコマンドの登録（GUILD_IDがあればそのサーバーのみ、内容が変わった場合のみ更新）
+      try {
+        const updated = await SlashCommandService.syncCommands(process.env.DISCORD_CLIENT_ID || client.user!.id);
+        await LogService.info('discord', updated ? 'スラッシュコマンドを登録しました' : 'スラッシュコマンドは登録済みです', {
+          scope: process.env.GUILD_ID ? `guild:${process.env.GUILD_ID}` : 'global'
+        });
+      } catch (error) {
+        await LogService.error('discord', 'スラッシュコマンドの登録中にエラーが発生', error);
+      }
+      
       // 初回のシステムチェックを開始
       hourlyCheck();
     });
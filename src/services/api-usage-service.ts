@@ -5,7 +5,7 @@
 import supabase from '../db/supabase';
 
 // サービスタイプの定義
-type ServiceType = 'gemini' | 'brave' | 'recraft';
+export type ServiceType = 'gemini' | 'openai' | 'brave' | 'recraft';
 
 const ApiUsageService = {
   /**
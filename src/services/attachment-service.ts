@@ -0,0 +1,139 @@
+/**
+ * 添付ファイルサービス
+ * Discordの添付ファイルをダウンロードし、Geminiに渡せるインラインデータに変換する
+ */
+
+import fetch from 'node-fetch';
+import { InlineDataPart } from '@google/generative-ai';
+import config from '../config';
+
+// Discordメッセージの添付ファイル情報
+export interface AttachmentInfo {
+  url: string;
+  name: string;
+  contentType?: string;
+  size: number;
+}
+
+// ダウンロード済みの添付ファイル
+export interface LoadedAttachments {
+  parts: InlineDataPart[];
+  // 読み込めた添付ファイル
+  loaded: AttachmentInfo[];
+  // 形式・サイズの制限により読み込まなかった添付ファイル
+  skipped: AttachmentInfo[];
+}
+
+// Geminiにインラインデータとして渡せる形式
+const SUPPORTED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'application/pdf'
+];
+
+// 拡張子からMIMEタイプを推定する（Discordが種類を返さない場合用）
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  pdf: 'application/pdf'
+};
+
+/**
+ * 添付ファイルのMIMEタイプを取得する
+ * @param attachment 添付ファイル情報
+ * @returns MIMEタイプ（不明な場合は空文字）
+ */
+function resolveMimeType(attachment: AttachmentInfo): string {
+  if (attachment.contentType) {
+    // "image/png; charset=..." のようなパラメータを取り除く
+    return attachment.contentType.split(';')[0].trim().toLowerCase();
+  }
+
+  const extension = (attachment.name || attachment.url).split('?')[0].split('.').pop() || '';
+  return EXTENSION_MIME_TYPES[extension.toLowerCase()] || '';
+}
+
+const AttachmentService = {
+  /**
+   * 添付ファイルがGeminiで扱える形式かどうかを判定する
+   * @param attachment 添付ファイル情報
+   * @returns 対応形式の場合はtrue
+   */
+  isSupported(attachment: AttachmentInfo): boolean {
+    return SUPPORTED_MIME_TYPES.includes(resolveMimeType(attachment));
+  },
+
+  /**
+   * 添付ファイルが画像かどうかを判定する
+   * @param attachment 添付ファイル情報
+   * @returns 画像の場合はtrue
+   */
+  isImage(attachment: AttachmentInfo): boolean {
+    return resolveMimeType(attachment).startsWith('image/');
+  },
+
+  /**
+   * 添付ファイルをダウンロードしてインラインデータに変換する
+   * 非対応の形式やサイズ上限を超えるものは読み込まずにskippedに含める
+   * @param attachments 添付ファイル情報の配列
+   * @returns インラインデータと読み込み結果
+   */
+  async loadAttachments(attachments: AttachmentInfo[]): Promise<LoadedAttachments> {
+    const result: LoadedAttachments = { parts: [], loaded: [], skipped: [] };
+    let totalSize = 0;
+
+    for (const attachment of attachments) {
+      const mimeType = resolveMimeType(attachment);
+
+      // 形式とサイズをダウンロード前に確認
+      if (!SUPPORTED_MIME_TYPES.includes(mimeType) ||
+          attachment.size > config.attachments.maxFileSize ||
+          totalSize + attachment.size > config.attachments.maxTotalSize) {
+        result.skipped.push(attachment);
+        continue;
+      }
+
+      try {
+        const response = await fetch(attachment.url);
+
+        if (!response.ok) {
+          console.error(`Failed to download attachment: ${attachment.name} (${response.status})`);
+          result.skipped.push(attachment);
+          continue;
+        }
+
+        const data = await response.buffer();
+
+        // 実際のサイズでも再確認
+        if (data.length > config.attachments.maxFileSize ||
+            totalSize + data.length > config.attachments.maxTotalSize) {
+          result.skipped.push(attachment);
+          continue;
+        }
+
+        totalSize += data.length;
+        result.parts.push({
+          inlineData: {
+            mimeType,
+            data: data.toString('base64')
+          }
+        });
+        result.loaded.push(attachment);
+      } catch (error) {
+        console.error(`Error downloading attachment: ${attachment.name}`, error);
+        result.skipped.push(attachment);
+      }
+    }
+
+    return result;
+  }
+};
+
+export default AttachmentService;
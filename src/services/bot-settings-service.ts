@@ -3,6 +3,22 @@
  */
 
 import supabase from '../db/supabase';
+import config from '../config';
+
+// サーバー別・チャンネル別のボット設定の範囲
+export interface ConfigScope {
+  type: 'guild' | 'channel';
+  id: string;
+}
+
+/**
+ * 設定の範囲からbot_settingsのキーを作成する
+ * @param scope 設定の範囲
+ * @returns 設定キー（bot_config:guild:<ID> または bot_config:channel:<ID>）
+ */
+function getScopeKey(scope: ConfigScope): string {
+  return `bot_config:${scope.type}:${scope.id}`;
+}
 
 const BotSettingsService = {
   /**
@@ -65,11 +81,15 @@ const BotSettingsService = {
   
   /**
    * システムプロンプトテンプレートを取得する
+   * @param botConfig サーバー・チャンネルのボット設定（system_promptとlanguageを反映する）
    * @returns システムプロンプトテンプレート
    */
-  async getSystemPrompt(): Promise<string> {
+  async getSystemPrompt(botConfig?: { system_prompt?: string | null; language?: string | null }): Promise<string> {
     try {
-      const promptTemplate = await this.getSetting('prompt_template');
+      const promptTemplate = botConfig?.system_prompt ?
+        { system_prompt: botConfig.system_prompt } :
+        await this.getSetting('prompt_template');
+      const languageNote = botConfig?.language ? `\n\n回答は必ず${botConfig.language}で行ってください。` : '';
       
       if (!promptTemplate || !promptTemplate.system_prompt) {
         // デフォルトのプロンプトを返す
@@ -83,13 +103,13 @@ const BotSettingsService = {
 - クリエイティブな質問にも柔軟に対応します
 - 不適切なリクエストには丁寧に断ります
 
-現在の日付: ${new Date().toISOString().split('T')[0]}`;
+現在の日付: ${new Date().toISOString().split('T')[0]}${languageNote}`;
       }
       
       // 現在の日付を追加
       return `${promptTemplate.system_prompt}
 
-現在の日付: ${new Date().toISOString().split('T')[0]}`;
+現在の日付: ${new Date().toISOString().split('T')[0]}${languageNote}`;
     } catch (error) {
       console.error('Error retrieving system prompt:', error);
       return '';
@@ -109,6 +129,7 @@ const BotSettingsService = {
         // デフォルト値
         const defaults = {
           gemini: 50000,
+          openai: 1000,
           brave: 1000,
           recraft: 50
         };
@@ -125,30 +146,88 @@ const BotSettingsService = {
   
   /**
    * ボット設定を取得する
+   * 保存されていない項目はデフォルト値で補い、チャンネル → サーバー → 全体（bot_config）の順に優先して値を決める
+   * @param guildId サーバーID（オプション）
+   * @param channelId チャンネルID（オプション）
    * @returns ボット設定オブジェクト
    */
-  async getBotConfig(): Promise<any> {
+  async getBotConfig(guildId?: string, channelId?: string): Promise<any> {
+    // デフォルト設定
+    const defaults = {
+      prefix: config.discord.prefix || '!',
+      allow_all_servers: false,
+      debug_mode: false,
+      tool_calling: true, // Geminiに検索の要否を判断させる（falseの場合は正規表現による検出）
+      grounded_search: true, // 検索結果をもとにGeminiが回答を作成する（falseの場合は検索結果をそのまま返す）
+      search_fetch_pages: false, // 回答作成時に検索結果のページ本文も取得する
+      search_enabled: true, // falseの場合は検索コマンドと自動検索を使わない
+      allowed_channels: [], // 応答するチャンネルのID（空の場合はすべて）
+      enabled_commands: null, // 使用できるコマンド名（nullの場合はすべて）
+      system_prompt: null, // prompt_templateのシステムプロンプトの代わりに使う
+      language: null, // 応答の言語（例: English）
+      admin_roles: [], // サーバー管理者として扱うロールのID
+      trusted_roles: [], // 信頼されたユーザーとして扱うロールのID
+      trusted_users: [], // 信頼されたユーザーのID
+      conversation_scope: 'user_channel', // 会話履歴の範囲（user・channel・user_channel）
+      auto_memory: false, // 会話からユーザーの事実や好みをGeminiで自動的に記憶する
+      model: null // 会話に使うモデル名またはプロバイダー名（nullの場合はLLM_PROVIDERの標準のモデル）
+    };
+    
     try {
       const botConfig = await this.getSetting('bot_config');
+      const guildConfig = guildId ? await this.getSetting(getScopeKey({ type: 'guild', id: guildId })) : null;
+      const channelConfig = guildId && channelId ? await this.getSetting(getScopeKey({ type: 'channel', id: channelId })) : null;
       
-      if (!botConfig) {
-        // デフォルト設定
-        return {
-          prefix: '!',
-          allow_all_servers: false,
-          debug_mode: false
-        };
-      }
-      
-      return botConfig;
+      return { ...defaults, ...botConfig, ...guildConfig, ...channelConfig };
     } catch (error) {
       console.error('Error retrieving bot config:', error);
-      return {
-        prefix: '!',
-        allow_all_servers: false,
-        debug_mode: false
-      };
+      return defaults;
     }
+  },
+  
+  /**
+   * サーバー・チャンネルの設定（allowed_channels）でボットが応答するチャンネルかどうかを判定する
+   * @param botConfig ボット設定
+   * @param channelId チャンネルID
+   * @param parentId スレッドの場合は親チャンネルのID
+   * @returns 応答する場合はtrue
+   */
+  isChannelAllowed(botConfig: { allowed_channels?: string[] | null }, channelId: string, parentId?: string | null): boolean {
+    const allowedChannels = botConfig.allowed_channels || [];
+    return allowedChannels.length === 0 ||
+      allowedChannels.includes(channelId) ||
+      (!!parentId && allowedChannels.includes(parentId));
+  },
+  
+  /**
+   * サーバー別・チャンネル別のボット設定を取得する（上書きしている項目のみ）
+   * @param scope 設定の範囲
+   * @returns 設定値
+   */
+  async getScopedConfig(scope: ConfigScope): Promise<Record<string, any>> {
+    return (await this.getSetting(getScopeKey(scope))) || {};
+  },
+  
+  /**
+   * サーバー別・チャンネル別のボット設定を更新する
+   * @param scope 設定の範囲
+   * @param values 上書きする設定値
+   * @returns 成功したかどうか
+   */
+  async updateScopedConfig(scope: ConfigScope, values: Record<string, any>): Promise<boolean> {
+    const current = await this.getScopedConfig(scope);
+    return await this.updateSetting(getScopeKey(scope), { ...current, ...values });
+  },
+  
+  /**
+   * サーバー別・チャンネル別のボット設定から項目を削除する（上位の設定に戻す）
+   * @param scope 設定の範囲
+   * @param key 設定項目
+   * @returns 成功したかどうか
+   */
+  async resetScopedConfig(scope: ConfigScope, key: string): Promise<boolean> {
+    const { [key]: removed, ...rest } = await this.getScopedConfig(scope);
+    return await this.updateSetting(getScopeKey(scope), rest);
   }
 };
 
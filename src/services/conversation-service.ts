@@ -3,31 +3,101 @@
  */
 
 import supabase from '../db/supabase';
+import config from '../config';
+import TokenBudgetService from './token-budget-service';
+
+// 保存する会話履歴の最大件数（モデルに渡す分はトークン数の上限で別に削る）
+const MAX_STORED_MESSAGES = 100;
 
 // 会話メッセージの型定義
 export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  // 複数人で共有する会話の場合の発言者（ユーザーのメッセージのみ）
+  userId?: string;
+  name?: string;
+}
+
+// 会話履歴の範囲の決め方（サーバー設定のconversation_scope）
+// user: ユーザーごと、channel: チャンネルの全員で共有、user_channel: チャンネルごとのユーザーごと
+export type ConversationScopeMode = 'user' | 'channel' | 'user_channel';
+
+// 会話履歴の範囲
+export interface ConversationScope {
+  // conversation_historiesのconversation_key
+  key: string;
+  // 複数人で共有する会話かどうか（発言者の名前を付けてモデルに渡す）
+  shared: boolean;
+}
+
+// 会話の要約（履歴から削った古い発言の記憶）
+export interface ConversationSummary {
+  // これまでに要約した内容（まだない場合はnull）
+  summary: string | null;
+  // 履歴から削られたが、まだ要約に含めていない発言
+  pending: ConversationMessage[];
+}
+
+// 会話の要約を作成する関数（これまでの要約と新しく削られた発言から、更新した要約を返す）
+export type ConversationSummarizer = (summary: string | null, messages: ConversationMessage[]) => Promise<string | null>;
+
+// 会話履歴の範囲を決めるための送信元の情報
+export interface ConversationSubject {
+  userId: string;
+  // DMの場合は省略
+  guildId?: string;
+  // スレッドの場合はスレッドのID
+  channelId?: string;
+  // ボットが開始したスレッドかどうか
+  isBotThread?: boolean;
 }
 
 const ConversationService = {
+  /**
+   * 会話履歴の範囲を決める
+   * DMはユーザーごと、ボットが開始したスレッドは参加者全員で共有し、それ以外はサーバー設定に従う
+   * @param subject 送信元の情報
+   * @param mode サーバー設定の範囲の決め方
+   * @returns 会話履歴の範囲
+   */
+  getScope(subject: ConversationSubject, mode: ConversationScopeMode = 'user_channel'): ConversationScope {
+    const { userId, guildId, channelId, isBotThread } = subject;
+
+    if (!guildId || !channelId) {
+      return { key: guildId ? `user:${userId}` : `dm:${userId}`, shared: false };
+    }
+
+    if (isBotThread) {
+      return { key: `thread:${channelId}`, shared: true };
+    }
+
+    switch (mode) {
+      case 'user':
+        return { key: `user:${userId}`, shared: false };
+      case 'channel':
+        return { key: `channel:${channelId}`, shared: true };
+      default:
+        return { key: `channel:${channelId}:user:${userId}`, shared: false };
+    }
+  },
+
   /**
    * 会話履歴を取得する
-   * @param userId ユーザーID
+   * @param conversationKey 会話履歴の範囲のキー
    * @returns 会話履歴の配列
    */
-  async getConversationHistory(userId: string): Promise<ConversationMessage[]> {
+  async getConversationHistory(conversationKey: string): Promise<ConversationMessage[]> {
     try {
-      // ユーザーIDで会話履歴を検索
+      // 範囲のキーで会話履歴を検索
       const { data, error } = await supabase
         .from('conversation_histories')
         .select('content')
-        .eq('user_id', userId)
+        .eq('conversation_key', conversationKey)
         .single();
       
       if (error) {
-        console.log('Conversation history not found for user:', userId);
+        console.log('Conversation history not found for key:', conversationKey);
         return [];
       }
       
@@ -40,25 +110,27 @@ const ConversationService = {
   
   /**
    * 会話履歴を保存する
-   * @param userId ユーザーID
+   * @param conversationKey 会話履歴の範囲のキー
    * @param history 会話履歴の配列
+   * @param userId 最後に発言したユーザーID
    */
-  async saveConversationHistory(userId: string, history: ConversationMessage[]): Promise<void> {
+  async saveConversationHistory(conversationKey: string, history: ConversationMessage[], userId?: string): Promise<void> {
     try {
-      // 最新の10件のみ保存（コンテキストウィンドウの制限のため）
-      const recentHistory = history.slice(-10);
+      // 1行のデータが大きくなりすぎないように件数を制限する
+      const recentHistory = history.slice(-MAX_STORED_MESSAGES);
       
       // Upsert操作 - 存在すれば更新、なければ作成
       const { error } = await supabase
         .from('conversation_histories')
         .upsert(
           {
-            user_id: userId,
+            conversation_key: conversationKey,
+            user_id: userId || null,
             content: recentHistory,
             updated_at: new Date().toISOString()
           },
           {
-            onConflict: 'user_id'
+            onConflict: 'conversation_key'
           }
         );
       
@@ -71,22 +143,119 @@ const ConversationService = {
   },
   
   /**
-   * 会話履歴をクリアする
-   * @param userId ユーザーID
+   * 会話の要約を取得する
+   * @param conversationKey 会話履歴の範囲のキー
+   * @returns 会話の要約（まだない場合は空の要約）
+   */
+  async getConversationSummary(conversationKey: string): Promise<ConversationSummary> {
+    try {
+      const { data, error } = await supabase
+        .from('conversation_histories')
+        .select('summary, summary_pending')
+        .eq('conversation_key', conversationKey)
+        .maybeSingle();
+      
+      if (error) {
+        console.error('Error getting conversation summary:', error);
+        return { summary: null, pending: [] };
+      }
+      
+      return {
+        summary: data?.summary || null,
+        pending: data?.summary_pending as ConversationMessage[] || []
+      };
+    } catch (error) {
+      console.error('Error retrieving conversation summary:', error);
+      return { summary: null, pending: [] };
+    }
+  },
+  
+  /**
+   * 会話の要約を保存する
+   * @param conversationKey 会話履歴の範囲のキー
+   * @param summary 会話の要約
+   * @returns 成功したかどうか
+   */
+  async saveConversationSummary(conversationKey: string, summary: ConversationSummary): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('conversation_histories')
+        .upsert(
+          {
+            conversation_key: conversationKey,
+            summary: summary.summary,
+            summary_pending: summary.pending.slice(-MAX_STORED_MESSAGES),
+            updated_at: new Date().toISOString()
+          },
+          {
+            onConflict: 'conversation_key'
+          }
+        );
+      
+      if (error) {
+        throw error;
+      }
+      
+      return true;
+    } catch (error) {
+      console.error('Error saving conversation summary:', error);
+      return false;
+    }
+  },
+  
+  /**
+   * 履歴から削られた発言を会話の要約にまとめる
+   * 削られた発言はいったん未要約として保存し、一定のトークン数に達したら要約を作り直す
+   * @param conversationKey 会話履歴の範囲のキー
+   * @param current 現在の会話の要約
+   * @param dropped 新しく履歴から削られた発言
+   * @param summarize 要約を作成する関数
+   * @returns 更新した会話の要約
+   */
+  async foldIntoSummary(
+    conversationKey: string,
+    current: ConversationSummary,
+    dropped: ConversationMessage[],
+    summarize: ConversationSummarizer
+  ): Promise<ConversationSummary> {
+    if (dropped.length === 0) {
+      return current;
+    }
+    
+    let updated: ConversationSummary = { summary: current.summary, pending: [...current.pending, ...dropped] };
+    const pendingTokens = updated.pending.reduce((sum, message) => sum + TokenBudgetService.estimateTokens(message.content), 0);
+    
+    if (pendingTokens >= config.conversation.summaryThreshold) {
+      // 要約に失敗した場合は未要約のまま残し、次の機会に作り直す
+      const summary = await summarize(updated.summary, updated.pending);
+      if (summary) {
+        updated = { summary, pending: [] };
+      }
+    }
+    
+    await this.saveConversationSummary(conversationKey, updated);
+    return updated;
+  },
+  
+  /**
+   * 会話履歴をクリアする（会話の要約もクリアする）
+   * @param conversationKey 会話履歴の範囲のキー
    * @returns 成功したかどうか
    */
-  async clearConversationHistory(userId: string): Promise<boolean> {
+  async clearConversationHistory(conversationKey: string): Promise<boolean> {
     try {
       const { error } = await supabase
         .from('conversation_histories')
         .upsert(
           {
-            user_id: userId,
+            conversation_key: conversationKey,
             content: [],
+            summary: null,
+            summary_pending: [],
             updated_at: new Date().toISOString()
           },
           {
-            onConflict: 'user_id'
+            onConflict: 'conversation_key'
           }
         );
       
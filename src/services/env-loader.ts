@@ -56,7 +56,8 @@ export async function loadEnvironmentVariables(): Promise<void> {
       'BRAVE_API_KEY',
       'PREFIX',
       'GUILD_ID',
-      'ALLOW_ALL_SERVERS'
+      'ALLOW_ALL_SERVERS',
+      'BOT_OWNER_IDS'
     ];
     
     // データベースにenv_variablesテーブルが存在するか確認
@@ -165,6 +166,7 @@ export async function syncEnvVariablesToDatabase(): Promise<void> {
       'PREFIX',
       'GUILD_ID',
       'ALLOW_ALL_SERVERS',
+      'BOT_OWNER_IDS',
       'OPENAI_API_KEY',
       'RECRAFT_API_KEY'
     ];
@@ -0,0 +1,135 @@
+/**
+ * フロー定義読み込みサービス
+ * flowsディレクトリのYAMLファイルからGraphAIのフロー定義を読み込み、検証する
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+import { GraphData, AgentFunctionInfoDictionary, inputs2dataSources } from 'graphai';
+// GraphAIのインスタンスを作らずに検証する（バンドルとは別のモジュールのため、ValidationErrorも同じ場所から読み込む）
+import { validateGraphData } from 'graphai/lib/validator';
+import { ValidationError } from 'graphai/lib/validators/common';
+
+// フロー定義ファイルの拡張子
+const FLOW_EXTENSIONS = ['.yaml', '.yml'];
+
+const FlowLoader = {
+  /**
+   * ディレクトリ内のすべてのフロー定義を読み込む
+   * @param directory フロー定義ディレクトリ
+   * @param agents 利用可能なエージェント
+   * @returns ファイル名（拡張子なし）をキーにしたフロー定義
+   */
+  async loadFlows(directory: string, agents: AgentFunctionInfoDictionary): Promise<Record<string, GraphData>> {
+    const files = (await fs.readdir(directory))
+      .filter(file => FLOW_EXTENSIONS.includes(path.extname(file)))
+      .sort();
+
+    const flows: Record<string, GraphData> = {};
+
+    for (const file of files) {
+      const flowName = path.basename(file, path.extname(file));
+
+      if (flows[flowName]) {
+        throw new Error(`フロー定義エラー (${file}): フロー名 "${flowName}" が重複しています`);
+      }
+
+      const content = await fs.readFile(path.join(directory, file), 'utf8');
+      flows[flowName] = this.parseFlow(file, content, agents);
+    }
+
+    return flows;
+  },
+
+  /**
+   * YAML文字列をフロー定義として解析し、検証する
+   * @param fileName ファイル名（エラーメッセージ用）
+   * @param content YAML文字列
+   * @param agents 利用可能なエージェント
+   * @returns フロー定義
+   */
+  parseFlow(fileName: string, content: string, agents: AgentFunctionInfoDictionary): GraphData {
+    let flow: any;
+
+    try {
+      flow = yaml.load(content);
+    } catch (error: any) {
+      throw new Error(`フロー定義エラー (${fileName}): YAMLの解析に失敗しました: ${error.message}`);
+    }
+
+    if (!flow || typeof flow !== 'object' || !flow.nodes || typeof flow.nodes !== 'object') {
+      throw new Error(`フロー定義エラー (${fileName}): nodesが定義されていません`);
+    }
+
+    this.validateFlow(fileName, flow as GraphData, agents);
+
+    return flow as GraphData;
+  },
+
+  /**
+   * フロー定義を検証する
+   * 未登録のエージェントや存在しないノードへの参照はエラーとする
+   * @param fileName ファイル名（エラーメッセージ用）
+   * @param flow フロー定義
+   * @param agents 利用可能なエージェント
+   */
+  validateFlow(fileName: string, flow: GraphData, agents: AgentFunctionInfoDictionary): void {
+    const nodeIds = Object.keys(flow.nodes);
+
+    for (const nodeId of nodeIds) {
+      const node: any = flow.nodes[nodeId];
+
+      if (!node || typeof node !== 'object') {
+        throw new Error(`フロー定義エラー (${fileName}): ノード "${nodeId}" の定義が不正です`);
+      }
+
+      if (!('agent' in node)) {
+        continue;
+      }
+
+      // エージェントの存在確認
+      if (typeof node.agent !== 'string' || !agents[node.agent]) {
+        throw new Error(`フロー定義エラー (${fileName}): ノード "${nodeId}" のエージェント "${node.agent}" は登録されていません`);
+      }
+
+      // 参照先ノードの存在確認（paramsはトップレベルの値のみがデータソースになる）
+      const sources = {
+        inputs: node.inputs,
+        if: node.if,
+        unless: node.unless,
+        params: node.params ? Object.values(node.params).filter(value => typeof value === 'string') : undefined
+      };
+
+      for (const [sourceType, source] of Object.entries(sources)) {
+        if (source === undefined) {
+          continue;
+        }
+
+        const referencedIds = (inputs2dataSources({ source }) as any[])
+          .flat(10)
+          .map(dataSource => dataSource.nodeId)
+          .filter((id): id is string => !!id);
+
+        const missingId = referencedIds.find(id => !nodeIds.includes(id));
+        if (missingId) {
+          throw new Error(`フロー定義エラー (${fileName}): ノード "${nodeId}" の${sourceType}が存在しないノード "${missingId}" を参照しています`);
+        }
+      }
+    }
+
+    // 循環参照などの残りの検証はGraphAIのバリデーターに任せる
+    // 検証以外のエラーはフロー定義の誤りではないため、そのまま投げる
+    try {
+      validateGraphData(flow, Object.keys(agents));
+    } catch (error: any) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      // 端末用の色付けを取り除く
+      throw new Error(`フロー定義エラー (${fileName}): ${error.message.replace(/\x1b\[\d+m/g, '')}`);
+    }
+  }
+};
+
+export default FlowLoader;
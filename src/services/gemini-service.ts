@@ -3,9 +3,17 @@
  * Google Gemini AIの統合と利用状態の管理
  */
 
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import {
+  GenerativeModel,
+  GoogleGenerativeAI,
+  HarmCategory,
+  HarmBlockThreshold,
+  Tool
+} from '@google/generative-ai';
+import config from '../config';
 import ApiUsageService from './api-usage-service';
 import BotSettingsService from './bot-settings-service';
+import LogService from './log-service';
 import supabase from '../db/supabase';
 
 // インターフェース定義
@@ -34,16 +42,61 @@ export interface GeminiSettings {
   }[];
 }
 
+// チャット・生成ごとに指定するモデルの設定
+export interface GeminiRequestOptions {
+  // gemini_settingsのモデルの代わりに使うモデル名
+  model?: string;
+  systemInstruction?: string;
+  tools?: Tool[];
+}
+
+// gemini_settingsのデフォルト値（保存された設定にない項目もこの値で補う）
+const DEFAULT_SETTINGS: GeminiSettings = {
+  modelName: config.gemini.model,
+  temperature: 0.7,
+  topK: 40,
+  topP: 0.95,
+  maxOutputTokens: 2048,
+  safetySettings: [
+    {
+      category: 'HARM_CATEGORY_HARASSMENT',
+      threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+    },
+    {
+      category: 'HARM_CATEGORY_HATE_SPEECH',
+      threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+    },
+    {
+      category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+      threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+    },
+    {
+      category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+      threshold: 'BLOCK_MEDIUM_AND_ABOVE'
+    }
+  ]
+};
+
+// 提供が終了したモデル名（gemini_settingsに保存されている場合はデフォルトのモデルに置き換える）
+const RETIRED_MODEL_NAMES = ['gemini-pro', 'gemini-pro-vision', 'gemini-1.0-pro'];
+
+// Gemini APIクライアント（APIキーごとに作り直す）
+let genAI: GoogleGenerativeAI | null = null;
+let genAIKey: string | undefined;
+
 // Gemini統合サービス
+// Geminiの呼び出しはすべてこのサービスを通し、gemini_settingsの変更を実行中に反映する
 const GeminiService = {
   /**
    * Gemini APIクライアントの初期化
+   * gemini_settingsのモデル・生成設定・安全設定を反映したモデルを返す
+   * @param options モデル名・システムプロンプト・ツール
    * @returns Gemini API生成モデル
    */
-  async getModel() {
+  async getModel(options: GeminiRequestOptions = {}): Promise<GenerativeModel> {
     try {
-      // APIキーの取得
-      const apiKey = process.env.GEMINI_API_KEY;
+      // APIキーの取得（データベースから読み込んだ環境変数の変更も反映する）
+      const apiKey = process.env.GEMINI_API_KEY || config.gemini.apiKey;
       
       if (!apiKey) {
         throw new Error('GEMINI_API_KEY is not defined in environment variables');
@@ -53,39 +106,10 @@ const GeminiService = {
       const settings = await this.getGeminiSettings();
       
       // Gemini APIクライアントの初期化
-      const genAI = new GoogleGenerativeAI(apiKey);
-      
-      // モデル設定
-      const modelConfig: GeminiModelConfig = {
-        model: settings.modelName,
-        temperature: settings.temperature,
-        topK: settings.topK,
-        topP: settings.topP,
-        maxOutputTokens: settings.maxOutputTokens
-      };
-      
-      return genAI.getGenerativeModel(modelConfig);
-    } catch (error) {
-      console.error('Error initializing Gemini model:', error);
-      throw error;
-    }
-  },
-  
-  /**
-   * チャットセッションの開始
-   * @param history 履歴メッセージ
-   * @returns チャットセッション
-   */
-  async startChat(history: any[] = []) {
-    try {
-      const model = await this.getModel();
-      const settings = await this.getGeminiSettings();
-      
-      // 履歴フォーマットの変換（必要に応じて）
-      const formattedHistory = history.map((msg: any) => ({
-        role: msg.role === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.content }]
-      }));
+      if (!genAI || genAIKey !== apiKey) {
+        genAI = new GoogleGenerativeAI(apiKey);
+        genAIKey = apiKey;
+      }
       
       // 安全設定の変換
       const safetySettings = settings.safetySettings.map(setting => ({
@@ -93,30 +117,32 @@ const GeminiService = {
         threshold: setting.threshold as HarmBlockThreshold
       }));
       
-      // チャットの初期化
-      return model.startChat({
-        history: formattedHistory,
+      return genAI.getGenerativeModel({
+        model: options.model || settings.modelName,
         generationConfig: {
           temperature: settings.temperature,
           topK: settings.topK,
           topP: settings.topP,
-          maxOutputTokens: settings.maxOutputTokens,
+          maxOutputTokens: settings.maxOutputTokens
         },
-        safetySettings
+        safetySettings,
+        systemInstruction: options.systemInstruction,
+        tools: options.tools
       });
     } catch (error) {
-      console.error('Error starting Gemini chat:', error);
+      console.error('Error initializing Gemini model:', error);
       throw error;
     }
   },
   
   /**
    * メッセージ送信のロガーとトラッカー
-   * @param userId ユーザーID
-   * @param content メッセージ内容
+   * @param userId ユーザーID（ない場合はundefined）
+   * @param content メッセージ内容またはその文字数
+   * @param requestType リクエストの種類
    * @returns 追跡成功の可否
    */
-  async trackMessageSent(userId: string, content: string): Promise<boolean> {
+  async trackMessageSent(userId: string | undefined, content: string | number, requestType: string = 'text'): Promise<boolean> {
     try {
       // API使用量を追跡
       await ApiUsageService.trackApiUsage('gemini');
@@ -127,9 +153,9 @@ const GeminiService = {
         .from('api_logs')
         .insert({
           service: 'gemini',
-          user_id: userId,
-          request_type: 'text',
-          characters_count: content.length,
+          user_id: userId || null,
+          request_type: requestType,
+          characters_count: typeof content === 'number' ? content : content.length,
           timestamp
         });
       
@@ -172,54 +198,31 @@ const GeminiService = {
       // データベースから設定を取得
       const settings = await BotSettingsService.getSetting('gemini_settings');
       
-      // 設定が存在する場合はそれを返す
-      if (settings) {
-        return settings;
+      // 提供が終了したモデル名はデフォルトのモデルに置き換えて保存する（以降は保存した値を使う）
+      if (settings && RETIRED_MODEL_NAMES.includes(settings.modelName)) {
+        const migrated = { ...DEFAULT_SETTINGS, ...settings, modelName: DEFAULT_SETTINGS.modelName };
+        await BotSettingsService.updateSetting('gemini_settings', migrated);
+        await LogService.warn('ai', 'gemini_settingsのモデル名を置き換えました', {
+          from: settings.modelName,
+          to: migrated.modelName
+        });
+        return migrated;
       }
       
-      // デフォルト設定
-      const defaultSettings: GeminiSettings = {
-        modelName: 'gemini-pro',
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 2048,
-        safetySettings: [
-          {
-            category: 'HARM_CATEGORY_HARASSMENT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_HATE_SPEECH',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          },
-          {
-            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-          }
-        ]
-      };
+      // 設定が存在する場合は、保存されていない項目をデフォルト値で補って返す
+      if (settings) {
+        return { ...DEFAULT_SETTINGS, ...settings };
+      }
       
       // デフォルト設定をデータベースに保存
-      await BotSettingsService.updateSetting('gemini_settings', defaultSettings);
+      await BotSettingsService.updateSetting('gemini_settings', DEFAULT_SETTINGS);
       
-      return defaultSettings;
+      return DEFAULT_SETTINGS;
     } catch (error) {
       console.error('Error getting Gemini settings:', error);
       
       // 最低限の設定を返す
-      return {
-        modelName: 'gemini-pro',
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 2048,
-        safetySettings: []
-      };
+      return { ...DEFAULT_SETTINGS, safetySettings: [] };
     }
   },
   
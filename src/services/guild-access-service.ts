@@ -0,0 +1,176 @@
+/**
+ * サーバーアクセス管理サービス
+ * guild_accessテーブルの許可リスト・拒否リストと環境変数の設定から、ボットを利用できるサーバーを判定する
+ */
+
+import { Guild } from 'discord.js';
+import supabase from '../db/supabase';
+import config from '../config';
+import BotSettingsService from './bot-settings-service';
+import LogService from './log-service';
+
+// guild_accessテーブルの状態（allow: 許可リスト, deny: 拒否リスト）
+export type GuildAccessStatus = 'allow' | 'deny';
+
+// 判定結果
+export interface GuildAccessDecision {
+  allowed: boolean;
+  // 判定の理由（denylist・guild_id・allowlist・allow_all_servers・lookup_failed・not_allowed）
+  reason: string;
+}
+
+// 退出する判定の理由（登録状態を取得できなかった場合などは退出しない）
+const LEAVE_REASONS = ['denylist', 'not_allowed'];
+
+const GuildAccessService = {
+  /**
+   * サーバーの許可・拒否の登録状態を取得する
+   * @param guildId サーバーID
+   * @returns 登録状態（登録されていない場合はnull、取得に失敗した場合はunknown）
+   */
+  async getGuildAccess(guildId: string): Promise<GuildAccessStatus | 'unknown' | null> {
+    try {
+      const { data, error } = await supabase
+        .from('guild_access')
+        .select('status')
+        .eq('guild_id', guildId)
+        .maybeSingle();
+
+      if (error) {
+        console.error(`Error getting guild access for ${guildId}:`, error);
+        return 'unknown';
+      }
+
+      return data?.status || null;
+    } catch (error) {
+      console.error(`Error retrieving guild access for ${guildId}:`, error);
+      return 'unknown';
+    }
+  },
+
+  /**
+   * サーバーを許可リストまたは拒否リストに登録する
+   * @param guildId サーバーID
+   * @param status 登録状態
+   * @param note メモ（オプション）
+   * @returns 成功したかどうか
+   */
+  async setGuildAccess(guildId: string, status: GuildAccessStatus, note?: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('guild_access')
+        .upsert(
+          {
+            guild_id: guildId,
+            status,
+            note: note || null,
+            updated_at: new Date().toISOString()
+          },
+          {
+            onConflict: 'guild_id'
+          }
+        );
+
+      if (error) {
+        console.error(`Error setting guild access for ${guildId}:`, error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Error saving guild access for ${guildId}:`, error);
+      return false;
+    }
+  },
+
+  /**
+   * サーバーの登録を削除する
+   * @param guildId サーバーID
+   * @returns 成功したかどうか
+   */
+  async removeGuildAccess(guildId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('guild_access')
+        .delete()
+        .eq('guild_id', guildId);
+
+      if (error) {
+        console.error(`Error removing guild access for ${guildId}:`, error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Error deleting guild access for ${guildId}:`, error);
+      return false;
+    }
+  },
+
+  /**
+   * サーバーでボットを利用できるかどうかを判定する
+   * 拒否リスト → GUILD_ID → 許可リスト → ALLOW_ALL_SERVERS（またはbot_configのallow_all_servers）の順に判定する
+   * 登録状態を取得できなかった場合は、誤って退出しないように許可する
+   * @param guildId サーバーID
+   * @returns 判定結果
+   */
+  async checkGuild(guildId: string): Promise<GuildAccessDecision> {
+    const status = await this.getGuildAccess(guildId);
+
+    if (status === 'deny') {
+      return { allowed: false, reason: 'denylist' };
+    }
+
+    if (config.discord.guildId === guildId) {
+      return { allowed: true, reason: 'guild_id' };
+    }
+
+    if (status === 'allow') {
+      return { allowed: true, reason: 'allowlist' };
+    }
+
+    const { allow_all_servers: allowAllServers } = await BotSettingsService.getBotConfig();
+    if (config.discord.allowAllServers || allowAllServers) {
+      return { allowed: true, reason: 'allow_all_servers' };
+    }
+
+    if (status === 'unknown') {
+      await LogService.warn('security', 'サーバーの登録状態を取得できないため、利用を許可します', { guildId });
+      return { allowed: true, reason: 'lookup_failed' };
+    }
+
+    return { allowed: false, reason: 'not_allowed' };
+  },
+
+  /**
+   * 拒否リストのサーバーと、許可されていないことが確定したサーバーから退出する
+   * 退出したサーバーはsecurityカテゴリのログに記録する
+   * @param guild サーバー
+   * @returns 利用が許可されている場合はtrue（退出した場合はfalse）
+   */
+  async enforce(guild: Guild): Promise<boolean> {
+    const decision = await this.checkGuild(guild.id);
+
+    if (decision.allowed || !LEAVE_REASONS.includes(decision.reason)) {
+      return true;
+    }
+
+    await LogService.warn('security', '許可されていないサーバーから退出します', {
+      guildId: guild.id,
+      guildName: guild.name,
+      ownerId: guild.ownerId,
+      memberCount: guild.memberCount,
+      reason: decision.reason
+    });
+
+    try {
+      await guild.leave();
+    } catch (error) {
+      await LogService.error('security', 'サーバーからの退出中にエラーが発生', error);
+    }
+
+    return false;
+  }
+};
+
+export default GuildAccessService;
@@ -0,0 +1,31 @@
+/**
+ * 画像生成プロバイダー
+ * config.imageGeneration.providerで使用するプロバイダーを切り替える
+ */
+
+import config from '../../config';
+import RecraftProvider from './recraft-provider';
+import StubProvider from './stub-provider';
+import { ImageProvider } from './types';
+
+export * from './types';
+
+// 利用可能なプロバイダー
+const providers: Record<string, ImageProvider> = {
+  [RecraftProvider.name]: RecraftProvider,
+  [StubProvider.name]: StubProvider
+};
+
+/**
+ * 設定されたプロバイダーを取得する
+ * @returns 画像生成プロバイダー
+ */
+export function getImageProvider(): ImageProvider {
+  const provider = providers[config.imageGeneration.provider];
+
+  if (!provider) {
+    throw new Error(`Unknown image provider: ${config.imageGeneration.provider}`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,95 @@
+/**
+ * Recraft APIを使用した画像生成プロバイダー
+ */
+
+import fetch from 'node-fetch';
+import config from '../../config';
+import { ImageProvider, ImageGenerationOptions, GeneratedImage } from './types';
+
+// APIエンドポイント
+const RECRAFT_ENDPOINT = 'https://external.api.recraft.ai/v1/images/generations';
+
+// 画像のURLの拡張子 → MIMEタイプ（vector_illustration・iconはSVG、それ以外はラスター画像が返る）
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+/**
+ * 画像のMIMEタイプを判定する
+ * レスポンスのContent-Typeを優先し、画像以外の場合はURLの拡張子から判定する
+ * @param contentType レスポンスのContent-Type
+ * @param url 画像のURL
+ * @returns MIMEタイプ
+ */
+export function detectMimeType(contentType: string | null, url: string): string {
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (mimeType.startsWith('image/')) {
+    return mimeType;
+  }
+
+  const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[extension] || 'image/webp';
+}
+
+const RecraftProvider: ImageProvider = {
+  name: 'recraft',
+  serviceType: 'recraft',
+  styles: ['realistic_image', 'digital_illustration', 'vector_illustration', 'icon'],
+  sizes: ['1024x1024', '1365x1024', '1024x1365', '1536x1024', '1024x1536', '1820x1024', '1024x1820'],
+
+  /**
+   * 画像を生成する
+   * @param options 生成オプション
+   * @returns 生成された画像
+   */
+  async generate({ prompt, style, size }: ImageGenerationOptions): Promise<GeneratedImage> {
+    if (!config.recraft || !config.recraft.apiKey) {
+      throw new Error('Recraft API key is not configured');
+    }
+
+    const response = await fetch(RECRAFT_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.recraft.apiKey}`
+      },
+      body: JSON.stringify({
+        prompt,
+        style: style || 'digital_illustration',
+        size: size || '1024x1024',
+        n: 1,
+        response_format: 'url'
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Recraft API error: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as { data?: Array<{ url?: string }> };
+    const url = result.data?.[0]?.url;
+
+    if (!url) {
+      throw new Error('Recraft API returned no image');
+    }
+
+    // スタイルによって形式が異なるため、画像をダウンロードして形式を判定する
+    const image = await fetch(url);
+
+    if (!image.ok) {
+      throw new Error(`Recraft image download error: ${image.status} ${image.statusText}`);
+    }
+
+    return {
+      data: Buffer.from(await image.arrayBuffer()),
+      mimeType: detectMimeType(image.headers.get('content-type'), url)
+    };
+  }
+};
+
+export default RecraftProvider;
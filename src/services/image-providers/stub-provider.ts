@@ -0,0 +1,28 @@
+/**
+ * 動作確認用の画像生成プロバイダー
+ * 外部APIを呼び出さずに固定の画像を返す
+ */
+
+import { ImageProvider, GeneratedImage } from './types';
+
+// 1x1ピクセルの透明なPNG
+const PLACEHOLDER_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const StubProvider: ImageProvider = {
+  name: 'stub',
+  styles: ['default'],
+  sizes: ['1024x1024'],
+
+  /**
+   * 固定の画像を返す
+   * @returns 生成された画像
+   */
+  async generate(): Promise<GeneratedImage> {
+    return {
+      data: Buffer.from(PLACEHOLDER_PNG, 'base64'),
+      mimeType: 'image/png'
+    };
+  }
+};
+
+export default StubProvider;
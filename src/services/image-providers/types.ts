@@ -0,0 +1,29 @@
+/**
+ * 画像生成プロバイダーの型定義
+ */
+
+import { ServiceType } from '../api-usage-service';
+
+// 画像生成のオプション
+export interface ImageGenerationOptions {
+  prompt: string;
+  // プロバイダーごとのスタイル名（省略時はプロバイダーのデフォルト）
+  style?: string;
+  // "1024x1024" 形式のサイズ
+  size?: string;
+}
+
+// 生成された画像
+export interface GeneratedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ImageProvider {
+  name: string;
+  // 使用量の記録と日次制限の対象となるAPI（制限がない場合は省略）
+  serviceType?: ServiceType;
+  styles: string[];
+  sizes: string[];
+  generate(options: ImageGenerationOptions): Promise<GeneratedImage>;
+}
@@ -0,0 +1,309 @@
+/**
+ * LLM呼び出しサービス
+ * LLMプロバイダーの呼び出しを、エラーの分類・再試行・プロバイダーごとのサーキットブレーカー・
+ * 予備のモデルへの切り替え（LLM_FALLBACK_MODELS）でまとめて行う
+ * 切り替えた場合は理由をaiカテゴリのログに残す
+ */
+
+import config from '../config';
+import LogService from './log-service';
+import { LlmChatRequest, LlmResponse, LlmSelection, resolveLlmModel } from './llm-providers';
+
+// エラーの種類
+// rate_limit: 429・クォータ超過, unavailable: 5xx・通信エラー, safety: 安全性のフィルターによるブロック,
+// auth: APIキーの誤り・未設定, invalid: リクエストの誤り, unknown: その他
+export type LlmErrorKind = 'rate_limit' | 'unavailable' | 'safety' | 'auth' | 'invalid' | 'unknown';
+
+// 分類したエラー
+export interface LlmErrorInfo {
+  kind: LlmErrorKind;
+  // 同じモデルで再試行するかどうか
+  retryable: boolean;
+  status?: number;
+  message: string;
+}
+
+// API呼び出しの記録（api_logs）に残す情報
+export interface LlmCallUsage {
+  userId?: string;
+  requestType: string;
+  // リクエストの内容またはその文字数
+  content: string | number;
+}
+
+// プロバイダーごとのサーキットブレーカーの状態
+interface CircuitState {
+  // 続けて失敗した回数
+  failures: number;
+  // この時刻まで呼び出さない（0の場合は閉じている）
+  openUntil: number;
+}
+
+// 同じモデルで再試行する最大回数
+const MAX_RETRIES = 2;
+
+// 再試行までの待ち時間（指数的に延ばし、0からこの範囲でランダムに決める）
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// 続けてこの回数失敗したプロバイダーは一定時間呼び出さない
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 60 * 1000;
+
+// プロバイダーの障害として数えないエラー（リクエストの内容による失敗）
+const NON_CIRCUIT_ERRORS: LlmErrorKind[] = ['safety', 'invalid'];
+
+// エラーの種類ごとのユーザー向けのメッセージ
+const USER_MESSAGES: Record<LlmErrorKind, string> = {
+  rate_limit: 'AIモデルが混み合っているため応答できませんでした。しばらくしてから再度お試しください。',
+  unavailable: 'AIモデルに接続できないため応答できませんでした。しばらくしてから再度お試しください。',
+  safety: '安全性のフィルターにより応答を生成できませんでした。表現を変えて再度お試しください。',
+  auth: 'AIモデルの設定に問題があるため応答できませんでした。管理者にお問い合わせください。',
+  invalid: 'AIモデルがリクエストを受け付けなかったため応答できませんでした。内容を変えて再度お試しください。',
+  unknown: 'AIモデルとの通信中にエラーが発生しました。しばらくしてから再度お試しください。'
+};
+
+// 通信エラーのコード
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET'];
+
+// プロバイダー名 → サーキットブレーカーの状態
+const circuits = new Map<string, CircuitState>();
+
+/**
+ * 再試行までの待ち時間を決める（指数バックオフとフルジッター）
+ * @param attempt 何回目の再試行か（0始まり）
+ * @returns 待ち時間（ミリ秒）
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+/**
+ * 指定した時間待つ
+ * @param ms 待ち時間（ミリ秒）
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * モデルの表示名（ログ用）
+ * @param selection プロバイダーとモデル
+ * @returns "プロバイダー/モデル" 形式の名前
+ */
+function label({ provider, model }: LlmSelection): string {
+  return `${provider.name}/${model}`;
+}
+
+const LlmCallService = {
+  /**
+   * エラーを種類に分類する
+   * @param error プロバイダーが投げたエラー
+   * @returns 分類したエラー
+   */
+  classifyError(error: any): LlmErrorInfo {
+    const message = String(error?.message || error);
+    // Geminiはstatus、OpenAIプロバイダーはstatusを付けたエラーを投げる
+    const status: number | undefined = error?.status ?? (Number(message.match(/\[(\d{3}) /)?.[1]) || undefined);
+
+    let kind: LlmErrorKind = 'unknown';
+    if (/blocked|content_filter/i.test(message)) {
+      kind = 'safety';
+    } else if (status === 429 || /quota|rate limit|too many requests/i.test(message)) {
+      kind = 'rate_limit';
+    } else if ((status && status >= 500) || NETWORK_ERROR_CODES.includes(error?.code) || /fetch failed|network|socket hang up|timeout/i.test(message)) {
+      kind = 'unavailable';
+    } else if (status === 401 || status === 403 || /API_KEY|api key/i.test(message)) {
+      kind = 'auth';
+    } else if (status && status >= 400) {
+      kind = 'invalid';
+    }
+
+    return { kind, retryable: kind === 'rate_limit' || kind === 'unavailable', status, message };
+  },
+
+  /**
+   * エラーをユーザー向けのメッセージにする（エラーの内容そのものは表示しない）
+   * @param error プロバイダーまたはcallが投げたエラー
+   * @returns エラーの種類に応じたメッセージ
+   */
+  toUserMessage(error: any): string {
+    return USER_MESSAGES[this.classifyError(error).kind];
+  },
+
+  /**
+   * プロバイダーのサーキットブレーカーが開いている（呼び出さない）かどうかを判定する
+   * 待ち時間が過ぎた後は呼び出しを試し、成功すれば閉じる（失敗した場合はすぐに再び開く）
+   * @param providerName プロバイダー名
+   * @returns 開いている場合はtrue
+   */
+  isCircuitOpen(providerName: string): boolean {
+    const state = circuits.get(providerName);
+    return !!state && state.openUntil > Date.now();
+  },
+
+  /**
+   * 呼び出しの成功・失敗をサーキットブレーカーに記録する
+   * @param providerName プロバイダー名
+   * @param error 失敗した場合のエラー（成功した場合は省略）
+   */
+  async recordResult(providerName: string, error?: LlmErrorInfo): Promise<void> {
+    if (!error) {
+      if (circuits.get(providerName)?.openUntil) {
+        await LogService.info('ai', 'プロバイダーの呼び出しを再開しました', { provider: providerName });
+      }
+      circuits.delete(providerName);
+      return;
+    }
+
+    if (NON_CIRCUIT_ERRORS.includes(error.kind)) {
+      return;
+    }
+
+    const state = circuits.get(providerName) || { failures: 0, openUntil: 0 };
+    state.failures++;
+
+    // 閉じている間は続けて失敗した回数で、試しの呼び出しで失敗した場合はすぐに開く
+    if (state.failures >= CIRCUIT_FAILURE_THRESHOLD || state.openUntil) {
+      state.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+      await LogService.warn('ai', 'プロバイダーの呼び出しを一時停止しました', {
+        provider: providerName,
+        failures: state.failures,
+        reason: error.kind,
+        cooldownMs: CIRCUIT_COOLDOWN_MS
+      });
+    }
+
+    circuits.set(providerName, state);
+  },
+
+  /**
+   * 呼び出すモデルの候補を取得する（選択したモデルの後にLLM_FALLBACK_MODELSのモデルを続ける）
+   * @param selection 選択したプロバイダーとモデル
+   * @returns 候補（重複を除く）
+   */
+  async getCandidates(selection: LlmSelection): Promise<LlmSelection[]> {
+    const fallbacks = await Promise.all(config.llm.fallbackModels.map(model => resolveLlmModel(model)));
+
+    return [selection, ...fallbacks].filter((candidate, index, candidates): candidate is LlmSelection =>
+      !!candidate && candidates.findIndex(other => other && label(other) === label(candidate)) === index);
+  },
+
+  /**
+   * 候補のモデルを順に呼び出す
+   * 再試行できるエラーは待ち時間をあけて同じモデルで再試行し、失敗した場合は次の候補に切り替える
+   * サーキットブレーカーが開いているプロバイダーと、使用量制限に達したプロバイダーは飛ばす
+   * @param selection 選択したプロバイダーとモデル
+   * @param usage 記録する情報
+   * @param run モデルを呼び出す関数
+   * @returns 呼び出しの結果（すべての候補が使用量制限に達している場合はnull）
+   */
+  async call<T>(selection: LlmSelection, usage: LlmCallUsage, run: (candidate: LlmSelection) => Promise<T>): Promise<T | null> {
+    const candidates = await this.getCandidates(selection);
+    // 呼び出さなかった候補と理由
+    const skipped: Array<{ model: string; reason: 'circuit_open' | 'usage_limit' }> = [];
+    let lastError: any = null;
+    let reason: string | null = null;
+    let previous: LlmSelection | null = null;
+
+    for (const candidate of candidates) {
+      const { provider } = candidate;
+
+      if (this.isCircuitOpen(provider.name)) {
+        reason = 'circuit_open';
+        skipped.push({ model: label(candidate), reason: 'circuit_open' });
+        continue;
+      }
+
+      if (!(await provider.checkUsageLimit())) {
+        reason = 'usage_limit';
+        skipped.push({ model: label(candidate), reason: 'usage_limit' });
+        continue;
+      }
+
+      if (reason) {
+        await LogService.warn('ai', '予備のモデルに切り替えました', {
+          from: label(previous || selection),
+          to: label(candidate),
+          reason,
+          error: lastError?.message,
+          requestType: usage.requestType
+        });
+      }
+
+      await provider.trackUsage(usage.userId, usage.content, usage.requestType);
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await run(candidate);
+          await this.recordResult(provider.name);
+          return result;
+        } catch (error) {
+          const info = this.classifyError(error);
+          await this.recordResult(provider.name, info);
+          lastError = error;
+          reason = info.kind;
+
+          if (!info.retryable || attempt >= MAX_RETRIES || this.isCircuitOpen(provider.name)) {
+            break;
+          }
+
+          const delay = backoffDelay(attempt);
+          await LogService.debug('ai', 'モデルの呼び出しを再試行します', {
+            model: label(candidate),
+            reason: info.kind,
+            attempt: attempt + 1,
+            delayMs: Math.round(delay)
+          });
+          await sleep(delay);
+        }
+      }
+
+      previous = candidate;
+    }
+
+    if (lastError) {
+      throw lastError;
+    }
+
+    // すべての候補が使用量制限に達している場合
+    if (skipped.every(skip => skip.reason === 'usage_limit')) {
+      return null;
+    }
+
+    // サーキットブレーカーが開いている候補がある場合は、接続できない（503）として扱う
+    await LogService.warn('ai', '呼び出せるモデルがありませんでした', { skipped, requestType: usage.requestType });
+    throw Object.assign(new Error('All LLM providers are unavailable (circuit open)'), { status: 503 });
+  },
+
+  /**
+   * 応答を生成する（切り替えた場合はリクエストのモデルを候補のモデルに置き換える）
+   * @param selection 選択したプロバイダーとモデル
+   * @param request リクエスト
+   * @param usage 記録する情報
+   * @returns 応答（すべての候補が使用量制限に達している場合はnull）
+   */
+  chat(selection: LlmSelection, request: LlmChatRequest, usage: LlmCallUsage): Promise<LlmResponse | null> {
+    return this.call(selection, usage, ({ provider, model }) => provider.chat({ ...request, model }));
+  },
+
+  /**
+   * 生成したテキスト全体をonTextに渡しながら応答を生成する
+   * 再試行・切り替えた場合は最初から生成し直す
+   * @param selection 選択したプロバイダーとモデル
+   * @param request リクエスト
+   * @param onText 生成したテキストを受け取る関数
+   * @param usage 記録する情報
+   * @returns 応答（すべての候補が使用量制限に達している場合はnull）
+   */
+  stream(
+    selection: LlmSelection,
+    request: LlmChatRequest,
+    onText: (text: string) => void,
+    usage: LlmCallUsage
+  ): Promise<LlmResponse | null> {
+    return this.call(selection, usage, ({ provider, model }) => provider.stream({ ...request, model }, onText));
+  }
+};
+
+export default LlmCallService;
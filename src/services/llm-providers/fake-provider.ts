@@ -0,0 +1,90 @@
+/**
+ * 動作確認用のLLMプロバイダー
+ * 外部APIを呼び出さずに、入力から決まった応答を返す
+ * 「tool:<ツール名> <クエリ>」で始まる発言にはツール呼び出しを返し、結果を受け取るとその内容を返す
+ */
+
+import TokenBudgetService from '../token-budget-service';
+import { LlmChatRequest, LlmProvider, LlmResponse } from './types';
+
+// ツール呼び出しを要求する発言の形式
+const TOOL_CALL_PATTERN = /^tool:(\S+)\s*(.*)$/s;
+
+/**
+ * 最後のメッセージから応答を作る
+ * @param request リクエスト
+ * @returns 応答
+ */
+function respond(request: LlmChatRequest): LlmResponse {
+  const last = request.messages[request.messages.length - 1];
+
+  if (request.responseFormat === 'json') {
+    return { text: '{}', toolCalls: [] };
+  }
+
+  if (!last) {
+    return { text: `[${request.model}]`, toolCalls: [] };
+  }
+
+  if (last.role === 'tool') {
+    return { text: `[${request.model}] ${last.name}: ${JSON.stringify(last.response)}`, toolCalls: [] };
+  }
+
+  const toolCall = last.role === 'user' ? last.content.match(TOOL_CALL_PATTERN) : null;
+  if (toolCall && request.tools?.some(tool => tool.name === toolCall[1])) {
+    return { text: '', toolCalls: [{ id: `${toolCall[1]}-0`, name: toolCall[1], args: { query: toolCall[2] } }] };
+  }
+
+  const attachments = last.role === 'user' && last.attachments?.length ? `（添付ファイル: ${last.attachments.length}件）` : '';
+  return { text: `[${request.model}] ${last.content}${attachments}`, toolCalls: [] };
+}
+
+const FakeProvider: LlmProvider = {
+  name: 'fake',
+
+  ownsModel(model) {
+    return model === 'fake' || model.startsWith('fake-');
+  },
+
+  async getDefaultModel() {
+    return 'fake';
+  },
+
+  async chat(request) {
+    return respond(request);
+  },
+
+  /**
+   * 応答を空白ごとに区切って順に渡す
+   * @param request リクエスト
+   * @param onText 生成したテキストを受け取る関数
+   * @returns 応答
+   */
+  async stream(request, onText) {
+    const response = respond(request);
+
+    let text = '';
+    for (const piece of response.text.split(/(?<=\s)/)) {
+      text += piece;
+      onText(text);
+    }
+
+    return response;
+  },
+
+  async countTokens(request) {
+    return TokenBudgetService.estimateTokens(request.systemInstruction || '') +
+      request.messages.reduce((sum, message) =>
+        sum + TokenBudgetService.estimateTokens(message.role === 'tool' ? JSON.stringify(message.response) : message.content), 0);
+  },
+
+  async checkUsageLimit() {
+    return true;
+  },
+
+  async trackUsage() {
+    return true;
+  }
+};
+
+export default FakeProvider;
@@ -0,0 +1,140 @@
+/**
+ * Gemini APIを使用したLLMプロバイダー
+ * モデルの作成と使用量の記録はGeminiServiceを通し、gemini_settingsの変更を反映する
+ */
+
+import { Content, EnhancedGenerateContentResponse, FunctionDeclaration, GenerateContentRequest, Part } from '@google/generative-ai';
+import GeminiService from '../gemini-service';
+import { LlmChatRequest, LlmMessage, LlmProvider, LlmResponse } from './types';
+
+/**
+ * 会話をGeminiの形式にする
+ * 連続するツールの結果は1つの会話にまとめる
+ * @param messages 会話
+ * @returns Geminiの会話
+ */
+function toContents(messages: LlmMessage[]): Content[] {
+  const contents: Content[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const part: Part = { functionResponse: { name: message.name, response: message.response } };
+      const last = contents[contents.length - 1];
+      if (last?.role === 'function') {
+        last.parts.push(part);
+      } else {
+        contents.push({ role: 'function', parts: [part] });
+      }
+    } else if (message.role === 'assistant') {
+      contents.push({
+        role: 'model',
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.args } }))
+        ]
+      });
+    } else {
+      contents.push({
+        role: 'user',
+        parts: [
+          { text: message.content },
+          ...(message.attachments || []).map(attachment => ({ inlineData: attachment }))
+        ]
+      });
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Geminiの応答を共通の形式にする
+ * @param response Geminiの応答
+ * @returns 応答
+ */
+function toResponse(response: EnhancedGenerateContentResponse): LlmResponse {
+  return {
+    text: response.text(),
+    toolCalls: (response.functionCalls() || []).map((call, index) => ({
+      id: `${call.name}-${index}`,
+      name: call.name,
+      args: call.args as Record<string, any>
+    }))
+  };
+}
+
+/**
+ * リクエストのモデルを作成し、Geminiのリクエストにする
+ * @param request リクエスト
+ * @returns モデルとGeminiのリクエスト
+ */
+async function prepare(request: LlmChatRequest) {
+  const model = await GeminiService.getModel({
+    model: request.model,
+    systemInstruction: request.systemInstruction,
+    tools: request.tools ? [{ functionDeclarations: request.tools as FunctionDeclaration[] }] : undefined
+  });
+
+  const generateRequest: GenerateContentRequest = {
+    contents: toContents(request.messages),
+    ...(request.responseFormat === 'json' ?
+      { generationConfig: { ...model.generationConfig, responseMimeType: 'application/json' } } :
+      {})
+  };
+
+  return { model, generateRequest };
+}
+
+const GeminiProvider: LlmProvider = {
+  name: 'gemini',
+  serviceType: 'gemini',
+
+  ownsModel(model) {
+    return model.startsWith('gemini-');
+  },
+
+  /**
+   * gemini_settingsのモデル名を返す
+   * @returns モデル名
+   */
+  async getDefaultModel() {
+    return (await GeminiService.getGeminiSettings()).modelName;
+  },
+
+  async chat(request) {
+    const { model, generateRequest } = await prepare(request);
+    const result = await model.generateContent(generateRequest);
+    return toResponse(result.response);
+  },
+
+  async stream(request, onText) {
+    const { model, generateRequest } = await prepare(request);
+    const result = await model.generateContentStream(generateRequest);
+
+    let text = '';
+    for await (const chunk of result.stream) {
+      text += chunk.text();
+      onText(text);
+    }
+
+    return toResponse(await result.response);
+  },
+
+  async countTokens(request) {
+    const { model, generateRequest } = await prepare(request);
+    const { totalTokens } = await model.countTokens({
+      generateContentRequest: { ...generateRequest, systemInstruction: request.systemInstruction }
+    });
+    return totalTokens;
+  },
+
+  checkUsageLimit() {
+    return GeminiService.checkUsageLimit();
+  },
+
+  trackUsage(userId, content, requestType) {
+    return GeminiService.trackMessageSent(userId, content, requestType);
+  }
+};
+
+export default GeminiProvider;
@@ -0,0 +1,86 @@
+/**
+ * LLMプロバイダー
+ * config.llm.providerで標準のプロバイダーを切り替え、サーバー・チャンネルの設定（model）や
+ * コマンドのオプション（--model）ではモデル名またはプロバイダー名で使用するモデルを選ぶ
+ */
+
+import config from '../../config';
+import FakeProvider from './fake-provider';
+import GeminiProvider from './gemini-provider';
+import OpenAIProvider from './openai-provider';
+import { LlmProvider } from './types';
+
+export * from './types';
+
+// 利用可能なプロバイダー
+const providers: Record<string, LlmProvider> = {
+  [GeminiProvider.name]: GeminiProvider,
+  [OpenAIProvider.name]: OpenAIProvider
+};
+
+/**
+ * 利用可能なプロバイダーを取得する
+ * 動作確認用のfakeは、LLM_PROVIDER=fake またはテストの実行時（NODE_ENV=test）のみ選べる
+ * @returns プロバイダー名 → プロバイダー
+ */
+function availableProviders(): Record<string, LlmProvider> {
+  const fakeEnabled = config.llm.provider === FakeProvider.name || process.env.NODE_ENV === 'test';
+  return fakeEnabled ? { ...providers, [FakeProvider.name]: FakeProvider } : providers;
+}
+
+// 使用するプロバイダーとモデル
+export interface LlmSelection {
+  provider: LlmProvider;
+  model: string;
+}
+
+/**
+ * 設定されたプロバイダーを取得する
+ * @returns LLMプロバイダー
+ */
+export function getLlmProvider(): LlmProvider {
+  const provider = availableProviders()[config.llm.provider];
+
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${config.llm.provider}`);
+  }
+
+  return provider;
+}
+
+/**
+ * モデル名またはプロバイダー名からプロバイダーを探す
+ * @param model モデル名（例: gpt-4o-mini）またはプロバイダー名（例: openai）
+ * @returns LLMプロバイダー（見つからない場合はundefined）
+ */
+export function findLlmProvider(model: string): LlmProvider | undefined {
+  const available = availableProviders();
+  return available[model] || Object.values(available).find(provider => provider.ownsModel(model));
+}
+
+/**
+ * 使用するプロバイダーとモデルを決める
+ * プロバイダー名の場合はそのプロバイダーの標準のモデル、指定がない場合は設定されたプロバイダーの標準のモデルを使う
+ * @param model モデル名またはプロバイダー名
+ * @returns プロバイダーとモデル（扱えるプロバイダーがない場合はnull）
+ */
+export async function resolveLlmModel(model?: string | null): Promise<LlmSelection | null> {
+  const provider = model ? findLlmProvider(model) : getLlmProvider();
+
+  if (!provider) {
+    return null;
+  }
+
+  return {
+    provider,
+    model: model && !availableProviders()[model] ? model : await provider.getDefaultModel()
+  };
+}
+
+/**
+ * 利用可能なプロバイダー名を取得する
+ * @returns プロバイダー名の配列
+ */
+export function listLlmProviders(): string[] {
+  return Object.keys(availableProviders());
+}
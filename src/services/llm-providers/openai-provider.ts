@@ -0,0 +1,261 @@
+/**
+ * OpenAI APIを使用したLLMプロバイダー
+ * Chat Completions APIを直接呼び出し、ストリーミングはServer-Sent Eventsを読み取る
+ */
+
+import fetch from 'node-fetch';
+import config from '../../config';
+import supabase from '../../db/supabase';
+import ApiUsageService from '../api-usage-service';
+import BotSettingsService from '../bot-settings-service';
+import TokenBudgetService from '../token-budget-service';
+import { LlmAttachment, LlmChatRequest, LlmMessage, LlmProvider, LlmResponse, LlmToolCall } from './types';
+
+// APIエンドポイント
+const OPENAI_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
+
+// ストリーミングで受け取るツール呼び出しの断片
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * 添付ファイルをOpenAIのメッセージの要素にする（画像はimage_url、PDFはfile）
+ * @param attachment 添付ファイル
+ * @returns メッセージの要素
+ */
+function toContentPart(attachment: LlmAttachment) {
+  const url = `data:${attachment.mimeType};base64,${attachment.data}`;
+  return attachment.mimeType === 'application/pdf' ?
+    { type: 'file', file: { filename: 'attachment.pdf', file_data: url } } :
+    { type: 'image_url', image_url: { url } };
+}
+
+/**
+ * 会話をOpenAIのメッセージの形式にする
+ * @param messages 会話
+ * @param systemInstruction システムプロンプト
+ * @returns OpenAIのメッセージ
+ */
+function toMessages(messages: LlmMessage[], systemInstruction?: string): any[] {
+  return [
+    ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+    ...messages.map(message => {
+      if (message.role === 'tool') {
+        return { role: 'tool', tool_call_id: message.toolCallId, content: JSON.stringify(message.response) };
+      }
+
+      if (message.role === 'assistant') {
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          ...(message.toolCalls?.length ? {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: JSON.stringify(call.args) }
+            }))
+          } : {})
+        };
+      }
+
+      return {
+        role: 'user',
+        content: message.attachments?.length ?
+          [{ type: 'text', text: message.content }, ...message.attachments.map(toContentPart)] :
+          message.content
+      };
+    })
+  ];
+}
+
+/**
+ * 安全性のフィルターで応答が止められた場合にエラーを投げる
+ * @param finishReason 応答の終了理由
+ */
+function assertNotFiltered(finishReason?: string | null): void {
+  if (finishReason === 'content_filter') {
+    throw new Error('OpenAI response was blocked due to content_filter');
+  }
+}
+
+/**
+ * ツール呼び出しの引数（JSON文字列）を読み取る
+ * @param id 呼び出しID
+ * @param name 関数名
+ * @param args 引数のJSON文字列
+ * @returns ツール呼び出し
+ */
+function toToolCall(id: string, name: string, args: string): LlmToolCall {
+  try {
+    return { id, name, args: args ? JSON.parse(args) : {} };
+  } catch (error) {
+    console.warn(`Invalid tool call arguments from OpenAI (${name}):`, args);
+    return { id, name, args: {} };
+  }
+}
+
+/**
+ * Chat Completions APIを呼び出す
+ * @param request リクエスト
+ * @param stream ストリーミングで受け取るかどうか
+ * @returns レスポンス
+ */
+async function requestCompletion(request: LlmChatRequest, stream: boolean) {
+  const apiKey = process.env.OPENAI_API_KEY || config.openai.apiKey;
+
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not defined in environment variables');
+  }
+
+  const response = await fetch(OPENAI_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: toMessages(request.messages, request.systemInstruction),
+      ...(request.tools ? {
+        tools: request.tools.map(tool => ({ type: 'function', function: tool }))
+      } : {}),
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+      stream
+    })
+  });
+
+  // 再試行・切り替えの判断に使うため、HTTPステータスをエラーに付ける
+  if (!response.ok) {
+    throw Object.assign(new Error(`OpenAI API error: ${response.status} ${response.statusText}`), { status: response.status });
+  }
+
+  return response;
+}
+
+const OpenAIProvider: LlmProvider = {
+  name: 'openai',
+  serviceType: 'openai',
+
+  ownsModel(model) {
+    return /^(gpt-|chatgpt-|o\d)/.test(model);
+  },
+
+  async getDefaultModel() {
+    return config.openai.model;
+  },
+
+  async chat(request): Promise<LlmResponse> {
+    const response = await requestCompletion(request, false);
+    const result = await response.json() as {
+      choices?: Array<{
+        finish_reason?: string | null;
+        message?: {
+          content?: string | null;
+          tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+        };
+      }>;
+    };
+    assertNotFiltered(result.choices?.[0]?.finish_reason);
+    const message = result.choices?.[0]?.message;
+
+    return {
+      text: message?.content || '',
+      toolCalls: (message?.tool_calls || []).map(call => toToolCall(call.id, call.function.name, call.function.arguments))
+    };
+  },
+
+  async stream(request, onText): Promise<LlmResponse> {
+    const response = await requestCompletion(request, true);
+
+    let text = '';
+    let buffer = '';
+    const toolCalls: { id: string; name: string; args: string }[] = [];
+
+    // "data: {...}" の行ごとに差分を受け取る（"data: [DONE]" で終わる）
+    for await (const chunk of response.body) {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data || data === '[DONE]') {
+          continue;
+        }
+
+        const choice = JSON.parse(data).choices?.[0];
+        assertNotFiltered(choice?.finish_reason);
+        const delta = choice?.delta;
+        if (delta?.content) {
+          text += delta.content;
+          onText(text);
+        }
+
+        (delta?.tool_calls as ToolCallDelta[] | undefined)?.forEach(call => {
+          const current = toolCalls[call.index] ||= { id: '', name: '', args: '' };
+          current.id = call.id || current.id;
+          current.name += call.function?.name || '';
+          current.args += call.function?.arguments || '';
+        });
+      }
+    }
+
+    return {
+      text,
+      toolCalls: toolCalls.filter(Boolean).map(call => toToolCall(call.id, call.name, call.args))
+    };
+  },
+
+  /**
+   * トークン数を文字数から見積もる（OpenAIにはトークン数を数えるAPIがないため）
+   * @param request リクエスト
+   * @returns 見積もったトークン数
+   */
+  async countTokens(request) {
+    return TokenBudgetService.estimateTokens(request.systemInstruction || '') +
+      request.messages.reduce((sum, message) =>
+        sum + TokenBudgetService.estimateTokens(message.role === 'tool' ? JSON.stringify(message.response) : message.content), 0);
+  },
+
+  async checkUsageLimit() {
+    try {
+      const dailyLimit = await BotSettingsService.getApiLimit('openai');
+      const dailyUsage = await ApiUsageService.getDailyUsage('openai');
+      return dailyUsage < dailyLimit;
+    } catch (error) {
+      console.error('Error checking OpenAI usage limit:', error);
+      return false; // エラー時は制限に達していると仮定
+    }
+  },
+
+  async trackUsage(userId, content, requestType) {
+    try {
+      await ApiUsageService.trackApiUsage('openai');
+
+      const { error } = await supabase
+        .from('api_logs')
+        .insert({
+          service: 'openai',
+          user_id: userId || null,
+          request_type: requestType,
+          characters_count: typeof content === 'number' ? content : content.length,
+          timestamp: new Date().toISOString()
+        });
+
+      if (error) {
+        console.warn('Failed to log OpenAI API usage:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error tracking OpenAI request:', error);
+      return false;
+    }
+  }
+};
+
+export default OpenAIProvider;
@@ -0,0 +1,66 @@
+/**
+ * LLMプロバイダーの型定義
+ * 会話の形式をプロバイダー共通にし、GeminiとOpenAIを同じ方法で呼び出せるようにする
+ */
+
+import { ServiceType } from '../api-usage-service';
+
+// 画像・PDFなどの添付ファイル（Base64）
+export interface LlmAttachment {
+  mimeType: string;
+  data: string;
+}
+
+// モデルが要求したツール呼び出し
+export interface LlmToolCall {
+  // 結果を返すときに対応付けるID（IDのないプロバイダーでは連番）
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+// 会話のメッセージ
+export type LlmMessage =
+  | { role: 'user'; content: string; attachments?: LlmAttachment[] }
+  | { role: 'assistant'; content: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; response: Record<string, any> };
+
+// モデルに公開するツール（引数はJSON Schemaで定義する）
+export interface LlmToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface LlmChatRequest {
+  model: string;
+  systemInstruction?: string;
+  // 最新の発言を末尾に含む会話
+  messages: LlmMessage[];
+  tools?: LlmToolDeclaration[];
+  // jsonの場合はJSONだけを出力させる
+  responseFormat?: 'text' | 'json';
+}
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+}
+
+export interface LlmProvider {
+  name: string;
+  // 使用量の記録と日次制限の対象となるAPI（制限がない場合は省略）
+  serviceType?: ServiceType;
+  // プロバイダーが扱うモデル名かどうか
+  ownsModel(model: string): boolean;
+  // モデルを指定しない場合に使うモデル名
+  getDefaultModel(): Promise<string>;
+  chat(request: LlmChatRequest): Promise<LlmResponse>;
+  // 生成したテキスト全体をonTextに渡しながら応答を生成する
+  stream(request: LlmChatRequest, onText: (text: string) => void): Promise<LlmResponse>;
+  countTokens(request: LlmChatRequest): Promise<number>;
+  // 日次の使用量制限に達していない場合はtrue
+  checkUsageLimit(): Promise<boolean>;
+  // API呼び出しを記録する
+  trackUsage(userId: string | undefined, content: string | number, requestType: string): Promise<boolean>;
+}
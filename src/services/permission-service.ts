@@ -0,0 +1,81 @@
+/**
+ * 権限サービス
+ * ユーザーの権限レベル（オーナー・サーバー管理者・信頼されたユーザー・全員）を判定する
+ */
+
+import config from '../config';
+
+// 権限レベル（後のものほど強い）
+export const PERMISSION_LEVELS = ['everyone', 'trusted', 'admin', 'owner'] as const;
+export type PermissionLevel = typeof PERMISSION_LEVELS[number];
+
+// 権限レベルの表示名
+export const PERMISSION_LEVEL_LABELS: Record<PermissionLevel, string> = {
+  everyone: '全員',
+  trusted: '信頼されたユーザー',
+  admin: 'サーバー管理者',
+  owner: 'ボットのオーナー'
+};
+
+// サーバー管理者とみなすDiscordの権限
+const ADMIN_PERMISSIONS = ['Administrator', 'ManageGuild'];
+
+// 権限レベルの判定に使う送信者の情報
+export interface PermissionSubject {
+  userId: string;
+  // DMの場合は省略
+  guildId?: string;
+  memberPermissions?: string[];
+  memberRoles?: string[];
+}
+
+// 権限レベルの判定に使うサーバー設定（bot_config）
+export interface PermissionConfig {
+  admin_roles?: string[] | null;
+  trusted_roles?: string[] | null;
+  trusted_users?: string[] | null;
+}
+
+const PermissionService = {
+  /**
+   * ユーザーの権限レベルを判定する
+   * オーナーはBOT_OWNER_IDS、サーバー管理者はサーバーの管理権限またはadmin_roles、
+   * 信頼されたユーザーはtrusted_usersまたはtrusted_rolesで決まる
+   * @param subject 送信者の情報
+   * @param botConfig サーバーのボット設定
+   * @returns 権限レベル
+   */
+  getPermissionLevel(subject: PermissionSubject, botConfig: PermissionConfig = {}): PermissionLevel {
+    const roles = subject.memberRoles || [];
+    const hasRole = (configured?: string[] | null) => (configured || []).some(role => roles.includes(role));
+
+    if (config.discord.ownerIds.includes(subject.userId)) {
+      return 'owner';
+    }
+
+    // サーバー管理者はサーバー内でのみ
+    if (subject.guildId &&
+        ((subject.memberPermissions || []).some(permission => ADMIN_PERMISSIONS.includes(permission)) ||
+         hasRole(botConfig.admin_roles))) {
+      return 'admin';
+    }
+
+    if ((botConfig.trusted_users || []).includes(subject.userId) || hasRole(botConfig.trusted_roles)) {
+      return 'trusted';
+    }
+
+    return 'everyone';
+  },
+
+  /**
+   * 権限レベルが必要なレベル以上かどうかを判定する
+   * @param level ユーザーの権限レベル
+   * @param required 必要な権限レベル
+   * @returns 必要なレベル以上の場合はtrue
+   */
+  hasLevel(level: PermissionLevel, required: PermissionLevel): boolean {
+    return PERMISSION_LEVELS.indexOf(level) >= PERMISSION_LEVELS.indexOf(required);
+  }
+};
+
+export default PermissionService;
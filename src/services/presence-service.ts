@@ -0,0 +1,121 @@
+/**
+ * プレゼンスサービス
+ * 処理中のリクエストの数をまとめてボットのステータスに表示し、処理中のチャンネルに入力中の表示を出す
+ * リクエストごとにステータスを切り替えないため、同時に複数のリクエストがあっても表示がちらつかない
+ */
+
+import { ActivityType, Client } from 'discord.js';
+import LogService from './log-service';
+
+// 入力中の表示を出せるチャンネル
+export interface TypingChannel {
+  sendTyping(): Promise<unknown>;
+}
+
+// 入力中の表示を更新する間隔（Discordの表示は約10秒で消える）
+const TYPING_INTERVAL_MS = 8000;
+
+// ステータスを更新する最小間隔（ゲートウェイのプレゼンス更新のレート制限のため）
+const PRESENCE_INTERVAL_MS = 5000;
+
+// ステータスを表示するクライアント
+let client: Client | null = null;
+// 処理中のリクエストの数
+let activeRequests = 0;
+// 最後に表示したステータス
+let currentActivity = '';
+let lastUpdateAt = 0;
+let presenceTimer: NodeJS.Timeout | null = null;
+
+/**
+ * 処理中のリクエストの数に合わせてステータスを表示する
+ * （リクエストごとにモデルが異なるため、モデル名は表示しない）
+ */
+async function applyPresence(): Promise<void> {
+  presenceTimer = null;
+
+  try {
+    const activity = activeRequests > 0 ?
+      { name: `${activeRequests}件の応答を生成中`, type: ActivityType.Playing } :
+      { name: 'チャット待機中', type: ActivityType.Listening };
+
+    if (!client?.user || activity.name === currentActivity) {
+      return;
+    }
+
+    client.user.setPresence({ status: 'online', activities: [activity] });
+    currentActivity = activity.name;
+    lastUpdateAt = Date.now();
+  } catch (error) {
+    await LogService.error('discord', 'ステータスの更新中にエラーが発生', error);
+  }
+}
+
+/**
+ * ステータスの更新を予約する（短い間の変化はまとめて1回で表示する）
+ */
+function schedulePresence(): void {
+  if (presenceTimer) {
+    return;
+  }
+
+  presenceTimer = setTimeout(() => applyPresence(), Math.max(0, lastUpdateAt + PRESENCE_INTERVAL_MS - Date.now()));
+}
+
+/**
+ * チャンネルに入力中の表示を出し続ける
+ * @param channel チャンネル
+ * @returns 表示を止める関数
+ */
+function startTyping(channel: TypingChannel): () => void {
+  const sendTyping = () => {
+    channel.sendTyping().catch(error => LogService.debug('discord', '入力中の表示に失敗しました', { error: error.message }));
+  };
+
+  sendTyping();
+  const timer = setInterval(sendTyping, TYPING_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+const PresenceService = {
+  /**
+   * ステータスを表示するクライアントを設定し、待機中のステータスを表示する
+   * @param discordClient ログイン済みのクライアント
+   */
+  attach(discordClient: Client): void {
+    client = discordClient;
+    currentActivity = '';
+    applyPresence();
+  },
+
+  /**
+   * 処理中のリクエストの数を取得する
+   * @returns リクエストの数
+   */
+  getActiveRequests(): number {
+    return activeRequests;
+  },
+
+  /**
+   * リクエストを処理する間、ステータスに数を表示し、チャンネルに入力中の表示を出す
+   * 処理が例外で終わった場合も表示を元に戻す
+   * @param task リクエストの処理
+   * @param channel 入力中の表示を出すチャンネル（スラッシュコマンドなど、表示しない場合は省略）
+   * @returns 処理の結果
+   */
+  async track<T>(task: () => Promise<T>, channel?: TypingChannel | null): Promise<T> {
+    activeRequests++;
+    schedulePresence();
+    const stopTyping = channel ? startTyping(channel) : () => {};
+
+    try {
+      return await task();
+    } finally {
+      stopTyping();
+      activeRequests--;
+      schedulePresence();
+    }
+  }
+};
+
+export default PresenceService;
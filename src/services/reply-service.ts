@@ -0,0 +1,277 @@
+/**
+ * 返信送信サービス
+ * Discordの文字数制限（2000文字）に合わせて応答を分割し、メッセージやスラッシュコマンドに順番に返信する
+ */
+
+import { AttachmentBuilder, APIActionRowComponent, APIButtonComponent, APIEmbed, ChatInputCommandInteraction, Message } from 'discord.js';
+import LogService from './log-service';
+import { DiscordOutput } from '../agents/types';
+
+// 最初の返信に付けるもの
+export interface ReplyExtras {
+  files?: AttachmentBuilder[];
+  embeds?: APIEmbed[];
+  components?: APIActionRowComponent<APIButtonComponent>[];
+}
+
+// Discordの1メッセージあたりの最大文字数
+const MAX_MESSAGE_LENGTH = 2000;
+
+// これを超える数に分割される場合はMarkdownファイルとして添付する
+const MAX_REPLY_CHUNKS = 4;
+
+// 分割時にコードブロックを閉じるための文字列
+const FENCE_CLOSE = '\n```';
+
+// 分割位置を探す際に、これより前の区切りは使わずに行単位で分割する（極端に短いメッセージを避けるため）
+const MIN_CHUNK_RATIO = 0.5;
+
+/**
+ * 行がコードブロックの開始・終了行かどうかを判定する
+ * @param line 行
+ * @returns コードフェンスの場合はtrue
+ */
+function isFence(line: string): boolean {
+  return line.trimStart().startsWith('```');
+}
+
+/**
+ * テキスト末尾で閉じられていないコードブロックの開始行を取得する
+ * @param text テキスト
+ * @returns 開始行（すべて閉じられている場合はnull）
+ */
+function findUnclosedFence(text: string): string | null {
+  let opener: string | null = null;
+
+  for (const line of text.split('\n')) {
+    if (isFence(line)) {
+      opener = opener === null ? line.trim() : null;
+    }
+  }
+
+  return opener;
+}
+
+/**
+ * サロゲートペア（絵文字など）の途中で分割しないように分割位置を調整する
+ * @param text 分割対象のテキスト
+ * @param index 分割位置
+ * @returns 調整した分割位置
+ */
+function avoidSurrogateSplit(text: string, index: number): number {
+  const code = text.charCodeAt(index - 1);
+  return code >= 0xd800 && code <= 0xdbff && index > 1 ? index - 1 : index;
+}
+
+/**
+ * 最後の行の開始位置を取得する
+ * @param text テキスト
+ * @returns 最後の行の開始位置
+ */
+function lastLineStart(text: string): number {
+  return text.lastIndexOf('\n') + 1;
+}
+
+/**
+ * 制限内で分割する位置を探す
+ * 段落の区切り・コードブロックの前後を優先し、なければ改行、それもなければ文字数で分割する
+ * @param text 分割対象のテキスト
+ * @param limit 最大文字数
+ * @returns 分割位置
+ */
+function findSplitPoint(text: string, limit: number): number {
+  const window = text.slice(0, limit);
+  const minimum = Math.floor(limit * MIN_CHUNK_RATIO);
+  let boundary = -1;
+  let inFence = false;
+  let offset = 0;
+
+  for (const line of window.split('\n')) {
+    const lineEnd = offset + line.length;
+
+    // 行全体がウィンドウに収まる場合のみ区切りの候補にする
+    if (lineEnd < window.length || window.length === text.length) {
+      if (isFence(line)) {
+        // コードブロックの開始行の前、または終了行の後で区切る
+        boundary = inFence ? lineEnd : offset;
+        inFence = !inFence;
+      } else if (!inFence && line.trim() === '') {
+        boundary = offset;
+      }
+    }
+
+    offset = lineEnd + 1;
+  }
+
+  if (boundary >= minimum) {
+    return boundary;
+  }
+
+  const lastNewline = window.lastIndexOf('\n');
+  return lastNewline > 0 ? lastNewline : avoidSurrogateSplit(text, window.length);
+}
+
+const ReplyService = {
+  /**
+   * テキストをDiscordのメッセージに収まる長さに分割する
+   * コードブロックの途中で分割した場合は閉じてから、次のメッセージで同じ言語指定で開き直す
+   * @param text 分割するテキスト
+   * @param limit 1メッセージの最大文字数
+   * @returns 分割されたテキストの配列
+   */
+  splitMessage(text: string, limit: number = MAX_MESSAGE_LENGTH): string[] {
+    const chunks: string[] = [];
+    let rest = text.trim();
+    let reopenedFence = '';
+
+    while (rest) {
+      const body = reopenedFence ? `${reopenedFence}\n${rest}` : rest;
+
+      if (body.length <= limit) {
+        chunks.push(body);
+        break;
+      }
+
+      // コードブロックを閉じる分の文字数を残しておく
+      const hardLimit = avoidSurrogateSplit(body, limit - FENCE_CLOSE.length);
+      let splitPoint = findSplitPoint(body, limit - FENCE_CLOSE.length);
+      let chunk = body.slice(0, splitPoint).trimEnd();
+      let unclosedFence = findUnclosedFence(chunk);
+
+      // コードブロックの開始行で終わる場合は、中身のないコードブロックにならないように開始行の前で分割する
+      // （開始行の前で分割できない場合は、長い行を文字数で分割する）
+      if (unclosedFence !== null && isFence(chunk.slice(lastLineStart(chunk)))) {
+        splitPoint = lastLineStart(chunk);
+      }
+
+      // 開き直したコードブロックの開始行だけのメッセージにならないようにする
+      if (splitPoint <= reopenedFence.length) {
+        splitPoint = hardLimit;
+      }
+
+      chunk = body.slice(0, splitPoint).trimEnd();
+      unclosedFence = findUnclosedFence(chunk);
+
+      if (unclosedFence !== null) {
+        chunk += FENCE_CLOSE;
+      }
+
+      chunks.push(chunk);
+      reopenedFence = unclosedFence || '';
+      rest = body.slice(splitPoint).replace(/^\n+/, '');
+
+      // 残りがコードブロックの終了行から始まる場合は、このメッセージで閉じたので開き直さない
+      const firstLine = rest.split('\n', 1)[0];
+      if (reopenedFence && isFence(firstLine)) {
+        reopenedFence = '';
+        rest = rest.slice(firstLine.length).replace(/^\n+/, '');
+      }
+    }
+
+    return chunks;
+  },
+
+  /**
+   * フローの実行結果から添付ファイル・埋め込み・ボタンを取り出す
+   * @param result engine.executeの結果
+   * @returns 返信に付けるもの
+   */
+  extrasFromResult(result: Omit<DiscordOutput, 'text'>): ReplyExtras {
+    return {
+      files: (result.files || []).map(file =>
+        new AttachmentBuilder(Buffer.from(file.data, 'base64'), { name: file.name })),
+      embeds: result.embeds,
+      components: result.components
+    };
+  },
+
+  /**
+   * 応答を送信するメッセージの内容に分ける
+   * 長い応答は分割し、分割数が多すぎる場合はMarkdownファイルとして添付する
+   * @param content 応答テキスト
+   * @param extras 添付ファイル・埋め込み・ボタン（最初のメッセージに付ける）
+   * @returns 送信するメッセージの内容の配列
+   */
+  buildPayloads(content: string, extras: ReplyExtras = {}): Array<{ content: string } & ReplyExtras> {
+    const { files = [], embeds = [], components = [] } = extras;
+    let chunks = this.splitMessage(content);
+    let attachments = files;
+
+    if (chunks.length > MAX_REPLY_CHUNKS) {
+      chunks = ['応答が長いため、ファイルとして添付します。'];
+      attachments = [...files, new AttachmentBuilder(Buffer.from(content, 'utf8'), { name: 'response.md' })];
+    }
+
+    // 最初のメッセージにだけ添付ファイル・埋め込み・ボタンを付ける
+    return chunks.map((chunk, index) => index === 0 ?
+      { content: chunk, files: attachments, embeds, components } :
+      { content: chunk });
+  },
+
+  /**
+   * メッセージに応答を返信する
+   * @param message 返信先のメッセージ
+   * @param content 応答テキスト
+   * @param extras 添付ファイル・埋め込み・ボタン（最初の返信に付ける）
+   * @returns すべて送信できた場合はtrue
+   */
+  async sendReply(message: Message, content: string, extras: ReplyExtras = {}): Promise<boolean> {
+    const payloads = this.buildPayloads(content, extras);
+
+    try {
+      for (const payload of payloads) {
+        await message.reply(payload);
+      }
+
+      await LogService.debug('discord', '返信を送信しました', { chunks: payloads.length });
+      return true;
+    } catch (error) {
+      await LogService.error('discord', 'メッセージ返信中にエラーが発生', error);
+
+      // DMの場合は返信ではなく直接送信を試す
+      if (message.guild) {
+        return false;
+      }
+
+      try {
+        await LogService.debug('discord', 'DMへの代替送信を試みます');
+        for (const payload of payloads) {
+          await message.author.send(payload);
+        }
+
+        await LogService.debug('discord', 'DMを送信しました');
+        return true;
+      } catch (dmError) {
+        await LogService.error('discord', 'DM送信中にエラーが発生', dmError);
+        return false;
+      }
+    }
+  },
+
+  /**
+   * 応答待ち（deferReply）にしたスラッシュコマンドに応答する
+   * 最初のメッセージで応答待ちの表示を置き換え、続きはフォローアップとして送信する
+   * @param interaction スラッシュコマンドのインタラクション
+   * @param content 応答テキスト
+   * @param extras 添付ファイル・埋め込み・ボタン（最初のメッセージに付ける）
+   * @returns すべて送信できた場合はtrue
+   */
+  async sendInteractionReply(interaction: ChatInputCommandInteraction, content: string, extras: ReplyExtras = {}): Promise<boolean> {
+    const [first, ...rest] = this.buildPayloads(content, extras);
+
+    try {
+      await interaction.editReply(first);
+      for (const payload of rest) {
+        await interaction.followUp(payload);
+      }
+
+      await LogService.debug('discord', 'スラッシュコマンドに応答しました', { chunks: rest.length + 1 });
+      return true;
+    } catch (error) {
+      await LogService.error('discord', 'スラッシュコマンドの応答中にエラーが発生', error);
+      return false;
+    }
+  }
+};
+
+export default ReplyService;
@@ -0,0 +1,208 @@
+/**
+ * 返信ストリーミングサービス
+ * Geminiの応答を生成しながら返信を編集して表示する
+ * 最初に応答待ちのメッセージを送信し、Discordの編集のレート制限に合わせて間隔をあけて更新する
+ * 2000文字を超えた分は新しいメッセージに続ける
+ */
+
+import { ChatInputCommandInteraction, Message } from 'discord.js';
+import ReplyService, { ReplyExtras } from './reply-service';
+import LogService from './log-service';
+
+// 送信・編集するメッセージの内容
+type StreamPayload = { content: string } & ReplyExtras;
+
+// 返信先（メッセージへの返信またはスラッシュコマンドの応答）
+export interface ReplyStreamTarget {
+  /**
+   * メッセージを送信する
+   * @param payload メッセージの内容
+   * @param index 何番目のメッセージか（0は応答待ちのメッセージ）
+   * @returns 送信したメッセージ
+   */
+  send(payload: StreamPayload, index: number): Promise<Message>;
+  edit(message: Message, payload: StreamPayload): Promise<unknown>;
+  remove(message: Message): Promise<unknown>;
+}
+
+// 生成中の応答を表示する返信
+export interface ReplyStream {
+  // 応答待ちのメッセージを送信済みかどうか（falseの場合は通常の返信で送信する）
+  readonly started: boolean;
+  // 応答待ちのメッセージを送信する
+  start(): Promise<void>;
+  // これまでに生成したテキスト全体で表示を更新する（間隔をあけてまとめて編集する）
+  update(text: string): void;
+  // 完成した応答で表示を確定し、添付ファイル・埋め込み・ボタンを付ける
+  finish(text: string, extras?: ReplyExtras): Promise<boolean>;
+}
+
+// 応答待ちのメッセージ
+const PLACEHOLDER_TEXT = '考え中...';
+
+// 編集の最小間隔（Discordの編集のレート制限はチャンネルごとに5秒で5回程度）
+const EDIT_INTERVAL_MS = 1200;
+
+// 生成中の返信（フローの実行ID（メッセージID）→ 返信）
+const streams = new Map<string, ReplyStream>();
+
+/**
+ * メッセージの内容に添付ファイル・埋め込み・ボタンがあるかどうかを判定する
+ * @param payload メッセージの内容
+ * @returns ある場合はtrue
+ */
+function hasExtras(payload: StreamPayload): boolean {
+  return !!(payload.files?.length || payload.embeds?.length || payload.components?.length);
+}
+
+/**
+ * 返信先に応答を表示する返信を作成する
+ * @param target 返信先
+ * @returns 返信
+ */
+function createReplyStream(target: ReplyStreamTarget): ReplyStream {
+  const messages: Message[] = [];
+  const contents: string[] = [];
+  let latest = '';
+  let lastEditAt = 0;
+  let timer: NodeJS.Timeout | null = null;
+  // 編集を順番に行うための待ち行列
+  let queue: Promise<void> = Promise.resolve();
+
+  /**
+   * メッセージの内容を送信済みのメッセージに反映する
+   * 変わったメッセージだけを編集し、足りない分は新しく送信、余った分は削除する
+   * @param payloads 送信するメッセージの内容
+   */
+  const render = async (payloads: StreamPayload[]): Promise<void> => {
+    for (let index = 0; index < payloads.length; index++) {
+      const payload = payloads[index];
+      if (index >= messages.length) {
+        messages.push(await target.send(payload, index));
+      } else if (contents[index] !== payload.content || hasExtras(payload)) {
+        await target.edit(messages[index], payload);
+      }
+      contents[index] = payload.content;
+    }
+
+    for (const message of messages.splice(payloads.length)) {
+      await target.remove(message);
+    }
+    contents.length = payloads.length;
+  };
+
+  const flush = (): void => {
+    timer = null;
+    const text = latest;
+    queue = queue.then(async () => {
+      lastEditAt = Date.now();
+      await render(ReplyService.splitMessage(text).map(content => ({ content })));
+    }).catch(error => LogService.error('discord', '生成中の応答の表示中にエラーが発生', error));
+  };
+
+  return {
+    get started() {
+      return messages.length > 0;
+    },
+
+    async start() {
+      if (messages.length > 0) {
+        return;
+      }
+
+      try {
+        messages.push(await target.send({ content: PLACEHOLDER_TEXT }, 0));
+        contents.push(PLACEHOLDER_TEXT);
+        lastEditAt = Date.now();
+      } catch (error) {
+        await LogService.error('discord', '応答待ちのメッセージの送信中にエラーが発生', error);
+      }
+    },
+
+    update(text) {
+      latest = text;
+      if (messages.length === 0 || timer || !text.trim()) {
+        return;
+      }
+
+      timer = setTimeout(flush, Math.max(0, lastEditAt + EDIT_INTERVAL_MS - Date.now()));
+    },
+
+    async finish(text, extras = {}) {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await queue;
+
+      try {
+        await render(ReplyService.buildPayloads(text, extras));
+        await LogService.debug('discord', '生成しながら返信しました', { chunks: messages.length });
+        return true;
+      } catch (error) {
+        await LogService.error('discord', '応答の確定中にエラーが発生', error);
+        return false;
+      }
+    }
+  };
+}
+
+const ReplyStreamService = {
+  /**
+   * メッセージに返信する返信先を作成する
+   * @param message 返信先のメッセージ
+   * @returns 返信先
+   */
+  messageTarget(message: Message): ReplyStreamTarget {
+    return {
+      send: payload => message.reply(payload),
+      edit: (sent, payload) => sent.edit(payload),
+      remove: sent => sent.delete()
+    };
+  },
+
+  /**
+   * 応答待ち（deferReply）にしたスラッシュコマンドの返信先を作成する
+   * 最初のメッセージは応答待ちの表示を置き換え、続きはフォローアップとして送信する
+   * @param interaction スラッシュコマンドのインタラクション
+   * @returns 返信先
+   */
+  interactionTarget(interaction: ChatInputCommandInteraction): ReplyStreamTarget {
+    return {
+      send: (payload, index) => index === 0 ? interaction.editReply(payload) : interaction.followUp(payload),
+      edit: (sent, payload) => interaction.editReply({ ...payload, message: sent }),
+      remove: sent => interaction.deleteReply(sent)
+    };
+  },
+
+  /**
+   * フローの実行中に応答を表示する返信を登録する
+   * @param id フローの実行ID（discordInputのmessageId）
+   * @param target 返信先
+   * @returns 返信
+   */
+  open(id: string, target: ReplyStreamTarget): ReplyStream {
+    const stream = createReplyStream(target);
+    streams.set(id, stream);
+    return stream;
+  },
+
+  /**
+   * 登録した返信を取得する
+   * @param id フローの実行ID
+   * @returns 返信（登録されていない場合はundefined）
+   */
+  get(id?: string): ReplyStream | undefined {
+    return id ? streams.get(id) : undefined;
+  },
+
+  /**
+   * 返信の登録を解除する
+   * @param id フローの実行ID
+   */
+  close(id: string): void {
+    streams.delete(id);
+  }
+};
+
+export default ReplyStreamService;
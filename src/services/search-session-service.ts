@@ -0,0 +1,85 @@
+/**
+ * 検索セッションサービス
+ * 検索結果のページ送りボタンから同じ検索を続けられるように、検索条件を保存する
+ * （ボタンにはセッションIDのみを持たせるため、ボットを再起動してもページ送りできる）
+ */
+
+import supabase from '../db/supabase';
+import { SearchOptions } from '../agents/web-search-agent';
+
+// 保存された検索条件
+export interface SearchSession {
+  id: string;
+  query: string;
+  options: SearchOptions;
+  userId?: string;
+  createdAt: string;
+}
+
+const SearchSessionService = {
+  /**
+   * 検索セッションを作成する
+   * @param query 検索クエリ
+   * @param options 検索オプション（offsetはボタンごとに指定するため保存しない）
+   * @param userId 検索したユーザーID（オプション）
+   * @returns セッションID（失敗した場合はnull）
+   */
+  async createSession(query: string, options: SearchOptions = {}, userId?: string): Promise<string | null> {
+    try {
+      const { offset, ...savedOptions } = options;
+
+      const { data, error } = await supabase
+        .from('search_sessions')
+        .insert({
+          query,
+          options: savedOptions,
+          user_id: userId || null
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Error creating search session:', error);
+        return null;
+      }
+
+      return data?.id || null;
+    } catch (error) {
+      console.error('Error creating search session:', error);
+      return null;
+    }
+  },
+
+  /**
+   * 検索セッションを取得する
+   * @param sessionId セッションID
+   * @returns 検索セッション（見つからない場合はnull）
+   */
+  async getSession(sessionId: string): Promise<SearchSession | null> {
+    try {
+      const { data, error } = await supabase
+        .from('search_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .single();
+
+      if (error || !data) {
+        console.log('Search session not found:', sessionId);
+        return null;
+      }
+
+      return {
+        id: data.id,
+        query: data.query,
+        options: data.options || {},
+        userId: data.user_id || undefined,
+        createdAt: data.created_at
+      };
+    } catch (error) {
+      console.error('Error retrieving search session:', error);
+      return null;
+    }
+  }
+};
+
+export default SearchSessionService;
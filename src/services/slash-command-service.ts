@@ -0,0 +1,237 @@
+/**
+ * スラッシュコマンドサービス
+ * コマンドレジストリの定義からスラッシュコマンドを作成してDiscordに登録し、コマンド入力をフローへの入力に変換する
+ */
+
+import {
+  ChatInputCommandInteraction,
+  REST,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  Routes,
+  SlashCommandBuilder
+} from 'discord.js';
+import config from '../config';
+import CommandRegistry, { CommandDefinition } from '../commands';
+import { quoteToken } from '../commands/tokenizer';
+import { AttachmentInfo } from './attachment-service';
+
+// スラッシュコマンドから作成したフローへの入力
+export interface SlashCommandInput {
+  content: string;
+  attachments: AttachmentInfo[];
+}
+
+/**
+ * コマンド定義からスラッシュコマンドの定義を作成する
+ * @param command コマンド定義
+ * @returns スラッシュコマンドの定義
+ */
+function buildSlashCommand(command: CommandDefinition): RESTPostAPIChatInputApplicationCommandsJSONBody {
+  const builder = new SlashCommandBuilder()
+    .setName(command.name)
+    .setDescription(command.description);
+
+  command.args.forEach(arg => {
+    if (arg.type === 'attachment') {
+      builder.addAttachmentOption(option => option
+        .setName(arg.name)
+        .setDescription(arg.description)
+        .setRequired(!!arg.required));
+    } else {
+      builder.addStringOption(option => option
+        .setName(arg.name)
+        .setDescription(arg.description)
+        .setRequired(!!arg.required));
+    }
+  });
+
+  command.options.forEach(commandOption => {
+    if (commandOption.type === 'boolean') {
+      builder.addBooleanOption(option => option
+        .setName(commandOption.name)
+        .setDescription(commandOption.description));
+    } else if (commandOption.type === 'number') {
+      builder.addIntegerOption(option => {
+        option
+          .setName(commandOption.name)
+          .setDescription(commandOption.description);
+        if (commandOption.min !== undefined) option.setMinValue(commandOption.min);
+        if (commandOption.max !== undefined) option.setMaxValue(commandOption.max);
+        return option;
+      });
+    } else {
+      builder.addStringOption(option => option
+        .setName(commandOption.name)
+        .setDescription(commandOption.description)
+        .addChoices(...Object.keys(commandOption.choices || {}).map(choice => ({ name: choice, value: choice }))));
+    }
+  });
+
+  // サーバー管理者向けのコマンドはサーバーでのみ表示する
+  // （管理者はadmin_rolesのロールでも判定するため、メンバーの表示は制限せず実行時に権限レベルを確認する）
+  if (command.level === 'admin') {
+    builder.setDMPermission(false);
+  }
+
+  return builder.toJSON();
+}
+
+/**
+ * 登録内容の比較用に、コマンド定義から名前・説明・オプション（選択肢と範囲を含む）だけを取り出す
+ * @param command コマンド定義（Discordから取得したものを含む）
+ * @returns 比較用の文字列
+ */
+function normalizeCommand(command: any): string {
+  return JSON.stringify({
+    name: command.name,
+    description: command.description,
+    options: (command.options || []).map((option: any) => ({
+      type: option.type,
+      name: option.name,
+      description: option.description,
+      required: !!option.required,
+      choices: (option.choices || []).map((choice: any) => choice.value),
+      min: option.min_value ?? null,
+      max: option.max_value ?? null
+    })),
+    permissions: command.default_member_permissions || null,
+    dm: command.dm_permission !== false
+  });
+}
+
+const SlashCommandService = {
+  /**
+   * スラッシュコマンドの定義を取得する
+   * @returns コマンド定義の配列
+   */
+  getCommands(): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+    return CommandRegistry.listCommands().map(buildSlashCommand);
+  },
+
+  /**
+   * スラッシュコマンドをDiscordに登録する
+   * GUILD_IDが設定されている場合はそのサーバーのみ（開発用、即時反映）、なければ全体に登録する
+   * 登録済みの内容と同じ場合は何もしない
+   * @param applicationId アプリケーションID
+   * @returns 登録を更新した場合はtrue
+   */
+  async syncCommands(applicationId: string): Promise<boolean> {
+    const rest = new REST().setToken(config.discord.token as string);
+    const route = config.discord.guildId ?
+      Routes.applicationGuildCommands(applicationId, config.discord.guildId) :
+      Routes.applicationCommands(applicationId);
+
+    const commands = this.getCommands();
+    const registered = await rest.get(route) as any[];
+    const current = registered.map(normalizeCommand).sort();
+    const desired = commands.map(normalizeCommand).sort();
+
+    if (JSON.stringify(current) === JSON.stringify(desired)) {
+      return false;
+    }
+
+    await rest.put(route, { body: commands });
+    return true;
+  },
+
+  /**
+   * スラッシュコマンドを実行したメンバーのロールIDを取得する
+   * @param interaction スラッシュコマンドのインタラクション
+   * @returns ロールIDの配列（DMの場合はundefined）
+   */
+  getMemberRoles(interaction: ChatInputCommandInteraction): string[] | undefined {
+    const roles = interaction.member?.roles;
+
+    if (!roles) {
+      return undefined;
+    }
+
+    // キャッシュされていないサーバーではAPIのメンバー情報（ロールIDの配列）になる
+    return Array.isArray(roles) ? roles : [...roles.cache.keys()];
+  },
+
+  /**
+   * スラッシュコマンドがボットの開始したスレッドで実行されたかどうかを判定する
+   * （メッセージと同じく、スレッドの会話履歴を参加者全員で共有するため）
+   * @param interaction スラッシュコマンドのインタラクション
+   * @returns ボットの開始したスレッドの場合はtrue
+   */
+  async isInBotThread(interaction: ChatInputCommandInteraction): Promise<boolean> {
+    const { channel } = interaction;
+
+    if (!channel || !channel.isThread()) {
+      return false;
+    }
+
+    const starterMessage = await channel.fetchStarterMessage().catch(() => null);
+    return starterMessage?.author.id === interaction.client.user.id;
+  },
+
+  /**
+   * スラッシュコマンドの入力をプレフィックスコマンドと同じメッセージ形式に変換する
+   * （コマンドの解析と処理はメッセージと同じフローで行う）
+   * @param interaction スラッシュコマンドのインタラクション
+   * @param prefix サーバー・チャンネルで設定されたプレフィックス
+   * @returns フローへの入力（対象外のコマンドの場合はnull）
+   */
+  toFlowInput(interaction: ChatInputCommandInteraction, prefix: string = config.discord.prefix || '!'): SlashCommandInput | null {
+    const command = CommandRegistry.get(interaction.commandName);
+
+    if (!command) {
+      return null;
+    }
+
+    const { options } = interaction;
+    const parts = [`${prefix}${command.name}`];
+    const attachments: AttachmentInfo[] = [];
+    let restValue: string | null = null;
+
+    command.args.forEach(arg => {
+      if (arg.type === 'attachment') {
+        const file = options.getAttachment(arg.name);
+        if (file) {
+          attachments.push({
+            url: file.url,
+            name: file.name,
+            contentType: file.contentType || undefined,
+            size: file.size
+          });
+        }
+        return;
+      }
+
+      // restの引数は入力をそのまま最後に渡す
+      const value = options.getString(arg.name);
+      if (value && arg.rest) {
+        restValue = value;
+      } else if (value) {
+        parts.push(quoteToken(value));
+      }
+    });
+
+    command.options.forEach(commandOption => {
+      if (commandOption.type === 'boolean') {
+        if (options.getBoolean(commandOption.name)) {
+          parts.push(`--${commandOption.name}`);
+        }
+        return;
+      }
+
+      const value = commandOption.type === 'number' ?
+        options.getInteger(commandOption.name) :
+        options.getString(commandOption.name);
+      if (value !== null) {
+        parts.push(`--${commandOption.name} ${quoteToken(String(value))}`);
+      }
+    });
+
+    // "--" より後はオプションとして解析されない（本文中の "--model" なども入力のまま渡る）
+    if (restValue) {
+      parts.push('--', restValue);
+    }
+
+    return { content: parts.join(' '), attachments };
+  }
+};
+
+export default SlashCommandService;
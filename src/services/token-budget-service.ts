@@ -0,0 +1,127 @@
+/**
+ * トークン予算サービス
+ * 会話履歴をモデルごとのトークン数の上限に収まるように古いものから削る
+ * トークン数はLLMプロバイダーのcountTokensで数え、APIを使えない場合は文字数から見積もる
+ */
+
+import config from '../config';
+import { ConversationMessage } from './conversation-service';
+import { LlmMessage, LlmSelection } from './llm-providers';
+
+// 日本語・中国語・韓国語の文字（おおよそ1文字1トークン）
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+// CJK以外の文字の1トークンあたりの文字数の目安
+const CHARS_PER_TOKEN = 4;
+
+// メッセージごとのロールなどの分のトークン数
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// 削った結果
+export interface TrimResult {
+  // モデルに渡す履歴（最新のユーザーの発言を含む）
+  kept: ConversationMessage[];
+  // 上限を超えたために削った古い履歴
+  dropped: ConversationMessage[];
+  // keptとシステムプロンプトを合わせたトークン数
+  totalTokens: number;
+}
+
+/**
+ * 会話のメッセージからテキストを取り出す
+ * @param message 会話のメッセージ
+ * @returns テキスト
+ */
+function messageText(message: LlmMessage): string {
+  return message.role === 'tool' ? JSON.stringify(message.response) : message.content;
+}
+
+const TokenBudgetService = {
+  /**
+   * モデルの会話履歴のトークン数の上限を取得する
+   * @param modelName モデル名
+   * @returns トークン数の上限
+   */
+  getBudget(modelName: string): number {
+    const { tokenBudgets, defaultTokenBudget, tokenBudgetOverride } = config.conversation;
+    return tokenBudgetOverride || tokenBudgets[modelName] || defaultTokenBudget;
+  },
+
+  /**
+   * テキストのトークン数を文字数から見積もる（オフライン用）
+   * @param text テキスト
+   * @returns 見積もったトークン数
+   */
+  estimateTokens(text: string): number {
+    const cjkCount = (text.match(CJK_PATTERN) || []).length;
+    return cjkCount + Math.ceil((text.length - cjkCount) / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+  },
+
+  /**
+   * システムプロンプトと会話のトークン数を数える
+   * countTokensが失敗した場合（オフライン・APIキーなし）は見積もりを返す
+   * @param selection プロバイダーとモデル
+   * @param messages 会話
+   * @param systemInstruction システムプロンプト
+   * @returns トークン数
+   */
+  async countTokens({ provider, model }: LlmSelection, messages: LlmMessage[], systemInstruction: string): Promise<number> {
+    try {
+      return await provider.countTokens({ model, messages, systemInstruction });
+    } catch (error: any) {
+      console.warn('countTokens failed, using local estimate:', error.message || error);
+      return this.estimateTokens(systemInstruction) +
+        messages.reduce((sum, message) => sum + this.estimateTokens(messageText(message)), 0);
+    }
+  },
+
+  /**
+   * 会話履歴をトークン数の上限に収まるように古いものから削る
+   * システムプロンプトと最新のユーザーの発言は上限を超えても必ず残す
+   * @param selection プロバイダーとモデル（モデル名で上限を決める）
+   * @param history 最新のユーザーの発言を末尾に含む会話履歴
+   * @param systemInstruction システムプロンプト
+   * @param toMessage 会話履歴のメッセージをモデルに渡す形式にする関数
+   * @returns 残した履歴と削った履歴
+   */
+  async trimToBudget(
+    selection: LlmSelection,
+    history: ConversationMessage[],
+    systemInstruction: string,
+    toMessage: (message: ConversationMessage) => LlmMessage
+  ): Promise<TrimResult> {
+    const budget = this.getBudget(selection.model);
+    const totalTokens = await this.countTokens(selection, history.map(toMessage), systemInstruction);
+
+    if (totalTokens <= budget || history.length <= 1) {
+      return { kept: history, dropped: [], totalTokens };
+    }
+
+    // 見積もりとcountTokensの差を補正して、メッセージごとのトークン数を求める
+    const estimates = history.map(message => this.estimateTokens(messageText(toMessage(message))));
+    const systemEstimate = this.estimateTokens(systemInstruction);
+    const ratio = totalTokens / (systemEstimate + estimates.reduce((sum, tokens) => sum + tokens, 0));
+
+    // 最新の発言から順に、上限に収まるところまで残す
+    let used = (systemEstimate + estimates[estimates.length - 1]) * ratio;
+    let start = history.length - 1;
+    while (start > 0 && used + estimates[start - 1] * ratio <= budget) {
+      used += estimates[start - 1] * ratio;
+      start--;
+    }
+
+    // モデルの応答から始まらないように、先頭のアシスタントの発言も削る
+    while (start < history.length - 1 && history[start].role !== 'user') {
+      used -= estimates[start] * ratio;
+      start++;
+    }
+
+    return {
+      kept: history.slice(start),
+      dropped: history.slice(0, start),
+      totalTokens: Math.round(used)
+    };
+  }
+};
+
+export default TokenBudgetService;
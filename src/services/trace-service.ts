@@ -0,0 +1,186 @@
+/**
+ * フロー実行トレースサービス
+ * GraphAIのトランザクションログからノードごとの実行記録を作成し、保存する
+ */
+
+import { GraphData, NodeState, TransactionLog } from 'graphai';
+import supabase from '../db/supabase';
+
+// 入出力を保存する際の最大文字数
+const MAX_VALUE_LENGTH = 500;
+
+// ノードごとの実行記録
+export interface TraceNode {
+  nodeId: string;
+  agentId?: string;
+  state: string;
+  // 条件分岐（if/unless）が設定されている場合の条件
+  condition?: string;
+  startedAt?: string;
+  durationMs?: number;
+  inputs?: any;
+  output?: any;
+  error?: string;
+}
+
+// フロー1回分の実行記録
+export interface FlowTrace {
+  runId: string;
+  flowName: string;
+  messageId?: string;
+  userId?: string;
+  startedAt: string;
+  durationMs: number;
+  // 実行されたノードの順序
+  path: string[];
+  nodes: TraceNode[];
+  error?: string;
+}
+
+/**
+ * 値をJSON文字列換算で一定の長さに切り詰める
+ * @param value 値
+ * @returns 切り詰めた値（長い場合は文字列）
+ */
+function truncateValue(value: any): any {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  let serialized: string;
+  try {
+    serialized = typeof value === 'string' ? value : JSON.stringify(value);
+  } catch (error) {
+    return '[serialization failed]';
+  }
+
+  if (serialized.length <= MAX_VALUE_LENGTH) {
+    return value;
+  }
+
+  return `${serialized.slice(0, MAX_VALUE_LENGTH)}…(${serialized.length}文字)`;
+}
+
+const TraceService = {
+  /**
+   * GraphAIのトランザクションログからトレースを作成する
+   * @param flow 実行したフロー定義
+   * @param logs トランザクションログ
+   * @returns ノードごとの実行記録と実行順
+   */
+  buildTraceNodes(flow: GraphData, logs: TransactionLog[]): Pick<FlowTrace, 'path' | 'nodes'> {
+    // 同じログオブジェクトが状態の変化ごとに追加されるため、ノードIDで最新のものに絞る
+    const latestLogs = new Map<string, TransactionLog>();
+    logs.forEach(log => latestLogs.set(log.nodeId, log));
+
+    const nodes: TraceNode[] = Object.keys(flow.nodes).map(nodeId => {
+      const definition: any = flow.nodes[nodeId];
+      const log = latestLogs.get(nodeId);
+
+      const condition = definition.if ? `if ${definition.if}` :
+        definition.unless ? `unless ${definition.unless}` :
+        undefined;
+
+      // 依存先がスキップされたノードは待機状態のまま終わるため、未到達として扱う
+      if (!log || log.state === NodeState.Waiting) {
+        return { nodeId, agentId: definition.agent, state: 'not-reached', condition };
+      }
+
+      // 名前付き入力はキーの順で値が記録されている
+      let inputs: any = log.inputsData;
+      const inputKeys = definition.inputs && !Array.isArray(definition.inputs) ? Object.keys(definition.inputs) : [];
+      if (log.inputsData && inputKeys.length === log.inputsData.length) {
+        inputs = Object.fromEntries(inputKeys.map((key, index) => [key, log.inputsData?.[index]]));
+      }
+
+      return {
+        nodeId,
+        agentId: log.agentId,
+        state: log.state,
+        condition,
+        startedAt: log.startTime ? new Date(log.startTime).toISOString() : undefined,
+        durationMs: log.startTime && log.endTime ? log.endTime - log.startTime : undefined,
+        inputs: truncateValue(inputs),
+        output: truncateValue(log.result),
+        error: log.errorMessage
+      };
+    });
+
+    const path = nodes
+      .filter(node => node.startedAt)
+      .sort((a, b) => (a.startedAt as string).localeCompare(b.startedAt as string))
+      .map(node => node.nodeId);
+
+    return { path, nodes };
+  },
+
+  /**
+   * トレースを保存する
+   * @param trace フロー実行トレース
+   * @returns 成功したかどうか
+   */
+  async saveTrace(trace: FlowTrace): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('flow_traces')
+        .insert({
+          run_id: trace.runId,
+          flow_name: trace.flowName,
+          message_id: trace.messageId || null,
+          user_id: trace.userId || null,
+          started_at: trace.startedAt,
+          duration_ms: trace.durationMs,
+          path: trace.path,
+          nodes: trace.nodes,
+          error: trace.error || null
+        });
+
+      if (error) {
+        console.error('Error saving flow trace:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error saving flow trace:', error);
+      return false;
+    }
+  },
+
+  /**
+   * DiscordメッセージIDからトレースを取得する
+   * @param messageId DiscordメッセージID
+   * @returns トレースの配列（新しい順）
+   */
+  async getTracesByMessageId(messageId: string): Promise<FlowTrace[]> {
+    try {
+      const { data, error } = await supabase
+        .from('flow_traces')
+        .select('*')
+        .eq('message_id', messageId)
+        .order('started_at', { ascending: false });
+
+      if (error) {
+        console.error('Error retrieving flow traces:', error);
+        return [];
+      }
+
+      return (data || []).map(row => ({
+        runId: row.run_id,
+        flowName: row.flow_name,
+        messageId: row.message_id || undefined,
+        userId: row.user_id || undefined,
+        startedAt: row.started_at,
+        durationMs: row.duration_ms,
+        path: row.path || [],
+        nodes: row.nodes || [],
+        error: row.error || undefined
+      }));
+    } catch (error) {
+      console.error('Error retrieving flow traces:', error);
+      return [];
+    }
+  }
+};
+
+export default TraceService;
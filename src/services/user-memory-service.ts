@@ -0,0 +1,189 @@
+/**
+ * ユーザーの記憶サービス
+ * 会話履歴とは別に、ユーザーごとの事実や好み（「英語で答えてほしい」など）をuser_memoriesテーブルに保存する
+ * 会話履歴をクリアしても残る
+ */
+
+import supabase from '../db/supabase';
+
+// 記憶の登録方法（manual: !remember, auto: 会話からの自動抽出）
+export type UserMemorySource = 'manual' | 'auto';
+
+// ユーザーの記憶
+export interface UserMemory {
+  id: number;
+  user_id: string;
+  content: string;
+  source: UserMemorySource;
+  created_at: string;
+}
+
+// 1人のユーザーについて保存する記憶の最大件数
+export const MAX_MEMORIES_PER_USER = 50;
+
+// 記憶1件の最大文字数
+export const MAX_MEMORY_LENGTH = 200;
+
+// プロンプトに含める記憶の最大件数
+const MAX_PROMPT_MEMORIES = 10;
+
+/**
+ * 関連度の判定に使う語を取り出す
+ * 英数字は単語ごと、日本語などは2文字ずつに区切る
+ * @param text テキスト
+ * @returns 語の集合
+ */
+function extractTerms(text: string): Set<string> {
+  const terms = new Set<string>();
+  const normalized = text.toLowerCase();
+
+  (normalized.match(/[a-z0-9]{2,}/g) || []).forEach(word => terms.add(word));
+
+  (normalized.match(/[^\sa-z0-9\p{P}\p{S}]+/gu) || []).forEach(chunk => {
+    for (let i = 0; i < chunk.length - 1; i++) {
+      terms.add(chunk.slice(i, i + 2));
+    }
+  });
+
+  return terms;
+}
+
+const UserMemoryService = {
+  /**
+   * ユーザーの記憶を登録順に取得する
+   * @param userId ユーザーID
+   * @returns 記憶の配列
+   */
+  async listMemories(userId: string): Promise<UserMemory[]> {
+    try {
+      const { data, error } = await supabase
+        .from('user_memories')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error(`Error listing memories for ${userId}:`, error);
+        return [];
+      }
+
+      return data as UserMemory[] || [];
+    } catch (error) {
+      console.error(`Error retrieving memories for ${userId}:`, error);
+      return [];
+    }
+  },
+
+  /**
+   * ユーザーの記憶を追加する
+   * 同じ内容の記憶がある場合と、件数が上限に達している場合は追加しない
+   * @param userId ユーザーID
+   * @param content 記憶する内容
+   * @param source 登録方法
+   * @returns 追加した記憶（追加しなかった場合はnull）
+   */
+  async addMemory(userId: string, content: string, source: UserMemorySource = 'manual'): Promise<UserMemory | null> {
+    const text = content.trim().slice(0, MAX_MEMORY_LENGTH);
+
+    try {
+      const memories = await this.listMemories(userId);
+      if (!text ||
+          memories.length >= MAX_MEMORIES_PER_USER ||
+          memories.some(memory => memory.content.toLowerCase() === text.toLowerCase())) {
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('user_memories')
+        .insert({ user_id: userId, content: text, source })
+        .select()
+        .single();
+
+      if (error) {
+        console.error(`Error adding memory for ${userId}:`, error);
+        return null;
+      }
+
+      return data as UserMemory;
+    } catch (error) {
+      console.error(`Error saving memory for ${userId}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * ユーザーの記憶を削除する
+   * @param userId ユーザーID
+   * @param id 記憶のID
+   * @returns 成功したかどうか
+   */
+  async removeMemory(userId: string, id: number): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('user_memories')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', id);
+
+      if (error) {
+        console.error(`Error removing memory ${id} for ${userId}:`, error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Error deleting memory ${id} for ${userId}:`, error);
+      return false;
+    }
+  },
+
+  /**
+   * ユーザーの記憶をすべて削除する
+   * @param userId ユーザーID
+   * @returns 成功したかどうか
+   */
+  async clearMemories(userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('user_memories')
+        .delete()
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error(`Error clearing memories for ${userId}:`, error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`Error deleting memories for ${userId}:`, error);
+      return false;
+    }
+  },
+
+  /**
+   * プロンプトに含める記憶を選ぶ
+   * 件数が少ない場合はすべて、多い場合は質問と共通する語の多いもの（同じ場合は新しいもの）から選ぶ
+   * @param memories ユーザーの記憶
+   * @param query 質問
+   * @returns プロンプトに含める記憶
+   */
+  selectRelevant(memories: UserMemory[], query: string): UserMemory[] {
+    if (memories.length <= MAX_PROMPT_MEMORIES) {
+      return memories;
+    }
+
+    const queryTerms = extractTerms(query);
+    const score = (memory: UserMemory) =>
+      [...extractTerms(memory.content)].filter(term => queryTerms.has(term)).length;
+
+    return memories
+      .map((memory, index) => ({ memory, index, score: score(memory) }))
+      .sort((a, b) => b.score - a.score || b.index - a.index)
+      .slice(0, MAX_PROMPT_MEMORIES)
+      .sort((a, b) => a.index - b.index)
+      .map(({ memory }) => memory);
+  }
+};
+
+export default UserMemoryService;
@@ -0,0 +1,106 @@
+/**
+ * 添付ファイルの読み込みの動作確認
+ * 添付ファイルはローカルのサーバーから配信する
+ */
+
+import './helpers/env';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { installFakeSupabase, resetTables } from './helpers/fake-supabase';
+import AttachmentService from '../src/services/attachment-service';
+import engine from '../src/graphai-engine';
+import config from '../src/config';
+
+// パス → 配信する内容
+const files: Record<string, Buffer> = {
+  '/cat.png': Buffer.from('png-data'),
+  '/doc.pdf': Buffer.from('%PDF-1.4'),
+  '/large.png': Buffer.alloc(config.attachments.maxFileSize + 1)
+};
+
+const server = http.createServer((request, response) => {
+  const data = files[request.url || ''];
+  response.writeHead(data ? 200 : 404);
+  response.end(data);
+});
+let baseUrl = '';
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe('AttachmentService.loadAttachments', () => {
+  it('対応形式の添付ファイルをインラインデータにする（種類がない場合は拡張子から判定する）', async () => {
+    const result = await AttachmentService.loadAttachments([
+      { url: `${baseUrl}/cat.png`, name: 'cat.png', contentType: 'image/png', size: 8 },
+      { url: `${baseUrl}/doc.pdf`, name: 'doc.pdf', size: 8 }
+    ]);
+
+    assert.deepEqual(result.parts, [
+      { inlineData: { mimeType: 'image/png', data: Buffer.from('png-data').toString('base64') } },
+      { inlineData: { mimeType: 'application/pdf', data: Buffer.from('%PDF-1.4').toString('base64') } }
+    ]);
+    assert.equal(result.loaded.length, 2);
+    assert.deepEqual(result.skipped, []);
+  });
+
+  it('非対応の形式・サイズの上限を超えるもの・ダウンロードできないものは読み込まない', async () => {
+    const text = { url: `${baseUrl}/notes.txt`, name: 'notes.txt', contentType: 'text/plain', size: 8 };
+    const declaredLarge = { url: `${baseUrl}/cat.png`, name: 'cat.png', contentType: 'image/png', size: config.attachments.maxFileSize + 1 };
+    const actualLarge = { url: `${baseUrl}/large.png`, name: 'large.png', contentType: 'image/png', size: 8 };
+    const missing = { url: `${baseUrl}/missing.png`, name: 'missing.png', contentType: 'image/png', size: 8 };
+
+    const result = await AttachmentService.loadAttachments([text, declaredLarge, actualLarge, missing]);
+
+    assert.deepEqual(result.parts, []);
+    assert.deepEqual(result.skipped, [text, declaredLarge, actualLarge, missing]);
+  });
+
+  it('画像かどうかを種類またはファイル名で判定する', () => {
+    assert.equal(AttachmentService.isImage({ url: `${baseUrl}/a`, name: 'photo.JPG', size: 1 }), true);
+    assert.equal(AttachmentService.isImage({ url: `${baseUrl}/a`, name: 'doc.pdf', contentType: 'application/pdf', size: 1 }), false);
+    assert.equal(AttachmentService.isSupported({ url: `${baseUrl}/a`, name: 'a.heic', size: 1 }), true);
+  });
+});
+
+describe('添付ファイル付きの発言', () => {
+  before(async () => {
+    installFakeSupabase();
+    await engine.initialize();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('添付ファイルをモデルに渡し、読み込めなかったものを知らせる', async () => {
+    const result = await engine.execute('main', {
+      discordInput: {
+        messageId: 'message-attachment',
+        guildId: 'guild-1',
+        channelId: 'channel-1',
+        isBotThread: false,
+        memberPermissions: [],
+        memberRoles: [],
+        content: 'この画像は何？',
+        authorId: 'user-1',
+        username: 'tester',
+        attachments: [
+          { url: `${baseUrl}/cat.png`, name: 'cat.png', contentType: 'image/png', size: 8 },
+          { url: `${baseUrl}/notes.txt`, name: 'notes.txt', contentType: 'text/plain', size: 8 }
+        ]
+      }
+    });
+
+    assert.match(result.discordOutput, /^\[fake\] .*この画像は何？（添付ファイル: 1件）/s);
+    assert.match(result.discordOutput, /※ notes\.txt は読み込めませんでした/);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * コマンドパーサーエージェントの動作確認
+ */
+
+import './helpers/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import CommandParserAgent from '../src/agents/command-parser-agent';
+
+describe('CommandParserAgent', () => {
+  it('restの引数の本文中にある定義にない "--" で始まる語はそのまま渡す', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!ask --model fake grep --color の意味は？', permissionLevel: 'trusted' });
+
+    assert.equal(parsed.error, undefined);
+    assert.equal(parsed.chatModel, 'fake');
+    assert.equal(parsed.args, 'grep --color の意味は？');
+  });
+
+  it('restの引数の後に指定した定義済みのオプションは解析する', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!search rust --verbose --count 5' });
+
+    assert.equal(parsed.error, undefined);
+    assert.equal(parsed.searchQuery, 'rust --verbose');
+    assert.equal(parsed.searchOptions?.count, 5);
+  });
+
+  it('restの引数がないコマンドでは不明なオプションをエラーにする', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!help --unknown' });
+
+    assert.match(parsed.error || '', /不明なオプション --unknown/);
+  });
+
+  it('restの引数は引用符と改行を残して渡す', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!ask what does "hello world" mean\nline2' });
+
+    assert.equal(parsed.error, undefined);
+    assert.equal(parsed.args, 'what does "hello world" mean\nline2');
+  });
+
+  it('restの引数の「」と複数行のテキストを残す', async () => {
+    const remember = await CommandParserAgent.process({ message: '!remember I like "tea"' });
+    const config = await CommandParserAgent.process({ message: '!config set system_prompt あなたは「ボッチー」です。\n- 丁寧に答える', permissionLevel: 'admin' });
+
+    assert.equal(remember.params?.fact, 'I like "tea"');
+    assert.equal(config.params?.value, 'あなたは「ボッチー」です。\n- 丁寧に答える');
+  });
+
+  it('restの引数の途中にあるオプションは本文から取り除く', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!search "rust async" --count 5 tokio' });
+
+    assert.equal(parsed.searchQuery, '"rust async" tokio');
+    assert.equal(parsed.searchOptions?.count, 5);
+  });
+
+  it('単独の "--" より後はオプションとして解析しない', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!ask --model fake -- --model の使い方は？', permissionLevel: 'trusted' });
+
+    assert.equal(parsed.chatModel, 'fake');
+    assert.equal(parsed.args, '--model の使い方は？');
+  });
+});
+
+describe('CommandParserAgent の引数の解析', () => {
+  it('位置引数を定義の順に割り当てる', async () => {
+    const forget = await CommandParserAgent.process({ message: '!forget 2' });
+    const config = await CommandParserAgent.process({ message: '!config set prefix ?', permissionLevel: 'admin' });
+
+    assert.deepEqual(forget.params, { target: '2' });
+    assert.deepEqual(config.params, { action: 'set', key: 'prefix', value: '?' });
+  });
+
+  it('位置引数の後のrestの引数に残りのテキストを渡す', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!memory set 旅行の計画を  相談している' });
+
+    assert.deepEqual(parsed.params, { action: 'set', text: '旅行の計画を  相談している' });
+  });
+
+  it('省略できる引数は指定しなくてよい', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!remember' });
+
+    assert.equal(parsed.error, undefined);
+    assert.deepEqual(parsed.params, {});
+  });
+
+  it('必須の引数がない場合は使い方を返す', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!search' });
+
+    assert.equal(parsed.error, 'query を指定してください\n使い方: `!search <query> [--count 値] [--offset 値] [--fresh 値] [--country 値] [--safesearch 値]`');
+    assert.equal(parsed.is?.runCommand, true);
+  });
+
+  it('オプションの値が不正な場合は理由を返す', async () => {
+    const count = await CommandParserAgent.process({ message: '!search rust --count 11' });
+    const fresh = await CommandParserAgent.process({ message: '!search rust --fresh decade' });
+    const missing = await CommandParserAgent.process({ message: '!search rust --count' });
+
+    assert.match(count.error || '', /^オプション --count には整数（1〜10）を指定してください/);
+    assert.match(fresh.error || '', /^オプション --fresh には day \/ week \/ month \/ year のいずれかを指定してください/);
+    assert.match(missing.error || '', /^オプション --count に値を指定してください/);
+  });
+
+  it('別名とプレフィックスの設定でコマンドを解析する', async () => {
+    const parsed = await CommandParserAgent.process({ message: '?s rust', prefix: '?' });
+
+    assert.equal(parsed.command, 'webSearch');
+    assert.equal(parsed.searchQuery, 'rust');
+  });
+
+  it('存在しないコマンドには近いコマンド名を提案する', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!serch rust' });
+
+    assert.equal(parsed.command, 'unknownCommand');
+    assert.equal(parsed.error, 'コマンド「!serch」は存在しません。もしかして: `!search`');
+  });
+
+  it('オプションの権限レベルが足りない場合は必要な権限を返す', async () => {
+    const everyone = await CommandParserAgent.process({ message: '!ask --model fake 質問' });
+    const trusted = await CommandParserAgent.process({ message: '!ask --model fake 質問', permissionLevel: 'trusted' });
+
+    assert.equal(everyone.requiredLevel, 'trusted');
+    assert.match(everyone.error || '', /^オプション --model は信頼されたユーザーのみ指定できます（あなたの権限: 全員）/);
+    assert.equal(trusted.error, undefined);
+    assert.equal(trusted.chatModel, 'fake');
+  });
+
+  it('権限レベルが足りない場合は必要な権限を返す', async () => {
+    const parsed = await CommandParserAgent.process({ message: '!config show' });
+
+    assert.equal(parsed.requiredLevel, 'admin');
+    assert.match(parsed.error || '', /サーバー管理者のみ実行できます（あなたの権限: 全員）/);
+  });
+});
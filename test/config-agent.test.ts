@@ -0,0 +1,119 @@
+/**
+ * !config コマンドの動作確認
+ */
+
+import './helpers/env';
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase, resetTables } from './helpers/fake-supabase';
+import ConfigAgent from '../src/agents/config-agent';
+import BotSettingsService from '../src/services/bot-settings-service';
+import engine from '../src/graphai-engine';
+
+/**
+ * mainフローの入力を作る
+ * @param content 発言の内容
+ * @param memberPermissions 送信者のサーバーでの権限
+ * @returns discordInput
+ */
+function discordInput(content: string, memberPermissions: string[] = []) {
+  return {
+    messageId: `message-${Date.now()}`,
+    guildId: 'guild-1',
+    channelId: 'channel-1',
+    isBotThread: false,
+    memberPermissions,
+    memberRoles: [],
+    content,
+    authorId: 'user-1',
+    username: 'tester',
+    attachments: []
+  };
+}
+
+const guild = { type: 'guild', id: 'guild-1' } as const;
+const channel = { type: 'channel', id: 'channel-1' } as const;
+
+describe('!config の権限', () => {
+  before(async () => {
+    installFakeSupabase();
+    await engine.initialize();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('サーバー管理者でない場合は設定を変更できない', async () => {
+    const result = await engine.execute('main', { discordInput: discordInput('!config set search_enabled off') });
+
+    assert.match(result.discordOutput, /サーバー管理者のみ実行できます/);
+    assert.deepEqual(await BotSettingsService.getScopedConfig(guild), {});
+  });
+
+  it('サーバーの管理権限を持つメンバーは設定を変更できる', async () => {
+    const result = await engine.execute('main', { discordInput: discordInput('!config set search_enabled off', ['ManageGuild']) });
+
+    assert.match(result.discordOutput, /このサーバーの `search_enabled` を off に設定しました/);
+    assert.deepEqual(await BotSettingsService.getScopedConfig(guild), { search_enabled: false });
+  });
+
+  it('admin_rolesのロールを持つメンバーは設定を変更できる', async () => {
+    await BotSettingsService.updateScopedConfig(guild, { admin_roles: ['role-1'] });
+    const input = { ...discordInput('!config reset admin_roles'), memberRoles: ['role-1'] };
+
+    const result = await engine.execute('main', { discordInput: input });
+
+    assert.match(result.discordOutput, /`admin_roles` を元に戻しました/);
+    assert.deepEqual(await BotSettingsService.getScopedConfig(guild), {});
+  });
+});
+
+describe('ConfigAgent', () => {
+  before(() => {
+    installFakeSupabase();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('--channel の場合はチャンネルの設定を変更し、表示で区別する', async () => {
+    await ConfigAgent.process({ action: 'set', key: 'language', value: 'English', channel: true, guildId: 'guild-1', channelId: 'channel-1' });
+
+    assert.deepEqual(await BotSettingsService.getScopedConfig(channel), { language: 'English' });
+    assert.deepEqual(await BotSettingsService.getScopedConfig(guild), {});
+
+    const { text } = await ConfigAgent.process({ guildId: 'guild-1', channelId: 'channel-1' });
+    assert.match(text || '', /`language`: `English`（このチャンネル）/);
+  });
+
+  it('メンション・IDで指定した値を変換して保存する', async () => {
+    const { text } = await ConfigAgent.process({ action: 'set', key: 'trusted_users', value: '<@123>, 456', guildId: 'guild-1' });
+
+    assert.match(text || '', /<@123> <@456> に設定しました/);
+    assert.deepEqual(await BotSettingsService.getScopedConfig(guild), { trusted_users: ['123', '456'] });
+  });
+
+  it('不正な値・サーバー全体でのみ設定できる項目は保存しない', async () => {
+    const results = await Promise.all([
+      ConfigAgent.process({ action: 'set', key: 'search_enabled', value: 'maybe', guildId: 'guild-1' }),
+      ConfigAgent.process({ action: 'set', key: 'prefix', value: 'toolong', guildId: 'guild-1' }),
+      ConfigAgent.process({ action: 'set', key: 'model', value: 'unknown-model', guildId: 'guild-1' }),
+      ConfigAgent.process({ action: 'set', key: 'admin_roles', value: '<@&1>', channel: true, guildId: 'guild-1', channelId: 'channel-1' }),
+      ConfigAgent.process({ action: 'set', key: 'unknown', value: '1', guildId: 'guild-1' }),
+      ConfigAgent.process({ action: 'set', key: 'prefix', value: '?' })
+    ]);
+
+    assert.deepEqual(results.map(result => result.text?.split(/[（。]/)[0]), [
+      'search_enabled には on または off を指定してください',
+      'プレフィックスは空白を含まない5文字以内で指定してください',
+      'モデル「unknown-model」は利用できません',
+      '`admin_roles` はサーバー全体でのみ設定できます',
+      '設定項目には `prefix`・`allowed_channels`・`enabled_commands`・`system_prompt`・`search_enabled`・`grounded_search`・`language`・`admin_roles`・`trusted_roles`・`trusted_users`・`auto_memory`・`model`・`conversation_scope` のいずれかを指定してください',
+      '設定はサーバー内でのみ変更できます'
+    ]);
+    assert.deepEqual(await BotSettingsService.getScopedConfig(guild), {});
+    assert.deepEqual(await BotSettingsService.getScopedConfig(channel), {});
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * 会話履歴の範囲の動作確認
+ */
+
+import './helpers/env';
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase, resetTables } from './helpers/fake-supabase';
+import ConversationService from '../src/services/conversation-service';
+import BotSettingsService from '../src/services/bot-settings-service';
+import engine from '../src/graphai-engine';
+
+describe('ConversationService.getScope', () => {
+  it('DMはユーザーごとの会話にする', () => {
+    assert.deepEqual(ConversationService.getScope({ userId: 'user-1', channelId: 'dm-1' }, 'channel'), { key: 'dm:user-1', shared: false });
+  });
+
+  it('ボットが開始したスレッドは設定にかかわらず参加者全員で共有する', () => {
+    const subject = { userId: 'user-1', guildId: 'guild-1', channelId: 'thread-1', isBotThread: true };
+
+    assert.deepEqual(ConversationService.getScope(subject, 'user'), { key: 'thread:thread-1', shared: true });
+  });
+
+  it('サーバーのチャンネルはconversation_scopeに従う（省略時はチャンネルごとのユーザーごと）', () => {
+    const subject = { userId: 'user-1', guildId: 'guild-1', channelId: 'channel-1' };
+
+    assert.deepEqual(ConversationService.getScope(subject), { key: 'channel:channel-1:user:user-1', shared: false });
+    assert.deepEqual(ConversationService.getScope(subject, 'user'), { key: 'user:user-1', shared: false });
+    assert.deepEqual(ConversationService.getScope(subject, 'channel'), { key: 'channel:channel-1', shared: true });
+  });
+});
+
+describe('会話履歴の範囲ごとの保存', () => {
+  /**
+   * mainフローでチャンネルに発言する
+   * @param authorId 送信者
+   * @param content 発言の内容
+   */
+  async function say(authorId: string, content: string) {
+    await engine.execute('main', {
+      discordInput: {
+        messageId: `message-${authorId}-${Date.now()}`,
+        guildId: 'guild-1',
+        channelId: 'channel-1',
+        isBotThread: false,
+        memberPermissions: [],
+        memberRoles: [],
+        content,
+        authorId,
+        username: authorId,
+        attachments: []
+      }
+    });
+  }
+
+  before(async () => {
+    installFakeSupabase();
+    await engine.initialize();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('標準ではチャンネルのユーザーごとに履歴を分ける', async () => {
+    await say('user-1', 'こんにちは');
+    await say('user-2', 'こんばんは');
+
+    const history = await ConversationService.getConversationHistory('channel:channel-1:user:user-1');
+    assert.deepEqual(history.map(message => message.role), ['user', 'assistant']);
+    assert.equal(history[0].content, 'こんにちは');
+  });
+
+  it('channelの場合はチャンネルの全員で履歴を共有し、発言者を記録する', async () => {
+    await BotSettingsService.updateScopedConfig({ type: 'guild', id: 'guild-1' }, { conversation_scope: 'channel' });
+
+    await say('user-1', 'こんにちは');
+    await say('user-2', 'こんばんは');
+
+    const history = await ConversationService.getConversationHistory('channel:channel-1');
+    assert.deepEqual(history.filter(message => message.role === 'user').map(message => [message.userId, message.content]), [
+      ['user-1', 'こんにちは'],
+      ['user-2', 'こんばんは']
+    ]);
+  });
+});
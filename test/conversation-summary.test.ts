@@ -0,0 +1,129 @@
+/**
+ * 会話の要約と !memory コマンドの動作確認
+ */
+
+import './helpers/env';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase, resetTables } from './helpers/fake-supabase';
+import ConversationService, { ConversationMessage } from '../src/services/conversation-service';
+import MemoryAgent from '../src/agents/memory-agent';
+import config from '../src/config';
+
+const KEY = 'channel:channel-1:user:user-1';
+const conversation = { key: KEY, shared: false };
+
+/**
+ * 会話履歴のメッセージを作る（見積もり8トークン）
+ * @param content 内容（16文字）
+ * @returns メッセージ
+ */
+function message(content: string): ConversationMessage {
+  return { role: 'user', content: content.padEnd(16, '.'), timestamp: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('ConversationService.foldIntoSummary', () => {
+  const threshold = config.conversation.summaryThreshold;
+  let calls: Array<{ summary: string | null; messages: ConversationMessage[] }> = [];
+  let nextSummary: string | null = null;
+  const summarize = async (summary: string | null, messages: ConversationMessage[]) => {
+    calls.push({ summary, messages });
+    return nextSummary;
+  };
+
+  before(() => {
+    installFakeSupabase();
+    // 未要約の発言が2件（16トークン）になったら要約する
+    config.conversation.summaryThreshold = 16;
+  });
+
+  after(() => {
+    config.conversation.summaryThreshold = threshold;
+  });
+
+  beforeEach(() => {
+    resetTables();
+    calls = [];
+    nextSummary = null;
+  });
+
+  it('削られた発言がない場合は何もしない', async () => {
+    const current = { summary: '要約', pending: [] };
+
+    assert.equal(await ConversationService.foldIntoSummary(KEY, current, [], summarize), current);
+    assert.deepEqual(calls, []);
+  });
+
+  it('しきい値に達するまでは未要約として保存する', async () => {
+    const updated = await ConversationService.foldIntoSummary(KEY, { summary: null, pending: [] }, [message('one')], summarize);
+
+    assert.deepEqual(updated, { summary: null, pending: [message('one')] });
+    assert.deepEqual(await ConversationService.getConversationSummary(KEY), updated);
+    assert.deepEqual(calls, []);
+  });
+
+  it('しきい値に達したらこれまでの要約と未要約の発言から要約を作り直す', async () => {
+    nextSummary = '新しい要約';
+
+    const updated = await ConversationService.foldIntoSummary(KEY, { summary: '古い要約', pending: [message('one')] }, [message('two')], summarize);
+
+    assert.deepEqual(calls, [{ summary: '古い要約', messages: [message('one'), message('two')] }]);
+    assert.deepEqual(updated, { summary: '新しい要約', pending: [] });
+    assert.deepEqual(await ConversationService.getConversationSummary(KEY), updated);
+  });
+
+  it('要約に失敗した場合は未要約のまま残す', async () => {
+    const updated = await ConversationService.foldIntoSummary(KEY, { summary: '古い要約', pending: [message('one')] }, [message('two')], summarize);
+
+    assert.equal(calls.length, 1);
+    assert.deepEqual(updated, { summary: '古い要約', pending: [message('one'), message('two')] });
+  });
+});
+
+describe('MemoryAgent', () => {
+  before(() => {
+    installFakeSupabase();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('要約と未要約の発言の件数を表示する', async () => {
+    await ConversationService.saveConversationSummary(KEY, { summary: '名前は太郎', pending: [message('one')] });
+
+    const { text } = await MemoryAgent.process({ userId: 'user-1', conversation });
+
+    assert.match(text || '', /\*\*この会話の要約:\*\*\n名前は太郎/);
+    assert.match(text || '', /まだ要約されていない古い発言が1件あります/);
+  });
+
+  it('要約を編集・クリアする', async () => {
+    await ConversationService.saveConversationSummary(KEY, { summary: null, pending: [message('one')] });
+
+    const set = await MemoryAgent.process({ action: 'set', text: 'Rustを勉強中', userId: 'user-1', conversation });
+    assert.equal(set.text, 'この会話の要約を更新しました。');
+    assert.deepEqual(await ConversationService.getConversationSummary(KEY), { summary: 'Rustを勉強中', pending: [message('one')] });
+
+    const clear = await MemoryAgent.process({ action: 'clear', userId: 'user-1', conversation });
+    assert.equal(clear.text, 'この会話の要約をクリアしました。');
+    assert.deepEqual(await ConversationService.getConversationSummary(KEY), { summary: null, pending: [] });
+  });
+
+  it('共有する会話の場合はその旨を表示する', async () => {
+    const { text } = await MemoryAgent.process({ action: 'clear', userId: 'user-1', conversation: { key: 'channel:channel-1', shared: true } });
+
+    assert.equal(text, 'この会話（参加者全員で共有）の要約をクリアしました。');
+  });
+
+  it('不正な要約・操作は保存しない', async () => {
+    const empty = await MemoryAgent.process({ action: 'set', text: ' ', userId: 'user-1', conversation });
+    const long = await MemoryAgent.process({ action: 'set', text: 'あ'.repeat(2001), userId: 'user-1', conversation });
+    const unknown = await MemoryAgent.process({ action: 'edit', userId: 'user-1', conversation });
+
+    assert.match(empty.text || '', /^設定する要約を指定してください/);
+    assert.equal(long.text, '要約は2000文字以内で指定してください。');
+    assert.equal(unknown.text, '操作には show・set・clear のいずれかを指定してください。');
+    assert.deepEqual(await ConversationService.getConversationSummary(KEY), { summary: null, pending: [] });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * フロー定義読み込みサービスの動作確認
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentFunctionInfoDictionary } from 'graphai';
+import FlowLoader from '../src/services/flow-loader';
+
+const agents = {
+  echoAgent: { agent: async ({ namedInputs }: any) => namedInputs }
+} as unknown as AgentFunctionInfoDictionary;
+
+const validFlow = [
+  'nodes:',
+  '  input:',
+  '    value: {}',
+  '  output:',
+  '    agent: echoAgent',
+  '    inputs:',
+  '      text: :input',
+  '    isResult: true'
+].join('\n');
+
+describe('FlowLoader.parseFlow', () => {
+  it('正しいフロー定義を読み込む', () => {
+    const flow = FlowLoader.parseFlow('valid.yaml', validFlow, agents);
+
+    assert.deepEqual(Object.keys(flow.nodes), ['input', 'output']);
+  });
+
+  it('循環参照をフロー定義エラーとして報告する', () => {
+    assert.throws(() => FlowLoader.parseFlow('cycle.yaml', [
+      'nodes:',
+      '  a:',
+      '    agent: echoAgent',
+      '    inputs:',
+      '      value: :b',
+      '  b:',
+      '    agent: echoAgent',
+      '    inputs:',
+      '      value: :a'
+    ].join('\n'), agents), (error: Error) => {
+      assert.match(error.message, /^フロー定義エラー \(cycle\.yaml\): /);
+      assert.doesNotMatch(error.message, /\x1b/);
+      return true;
+    });
+  });
+
+  it('検証がグローバル環境（Blob）に依存しない', () => {
+    const { Blob } = globalThis;
+    (globalThis as any).Blob = function BrokenBlob() {
+      throw new Error('Blob is not available');
+    };
+
+    try {
+      assert.doesNotThrow(() => FlowLoader.parseFlow('valid.yaml', validFlow, agents));
+    } finally {
+      globalThis.Blob = Blob;
+    }
+  });
+});
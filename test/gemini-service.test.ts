@@ -0,0 +1,34 @@
+/**
+ * Gemini API統合サービスの動作確認
+ */
+
+import './helpers/env';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase, resetTables, tables } from './helpers/fake-supabase';
+import config from '../src/config';
+import BotSettingsService from '../src/services/bot-settings-service';
+import GeminiService from '../src/services/gemini-service';
+
+describe('GeminiService.getGeminiSettings', () => {
+  beforeEach(() => {
+    installFakeSupabase();
+    resetTables();
+  });
+
+  it('提供が終了したモデル名をデフォルトのモデルに置き換えて保存する', async () => {
+    await BotSettingsService.updateSetting('gemini_settings', { modelName: 'gemini-pro', temperature: 0.2 });
+
+    const settings = await GeminiService.getGeminiSettings();
+
+    assert.equal(settings.modelName, config.gemini.model);
+    assert.equal(settings.temperature, 0.2);
+    assert.equal(tables.bot_settings.find(row => row.key === 'gemini_settings')?.value.modelName, config.gemini.model);
+  });
+
+  it('保存されたモデル名はそのまま使う', async () => {
+    await BotSettingsService.updateSetting('gemini_settings', { modelName: 'gemini-2.5-pro' });
+
+    assert.equal((await GeminiService.getGeminiSettings()).modelName, 'gemini-2.5-pro');
+  });
+});
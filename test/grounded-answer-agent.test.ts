@@ -0,0 +1,114 @@
+/**
+ * 検索結果に基づく回答生成エージェントの動作確認
+ */
+
+import './helpers/env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { installFakeSupabase } from './helpers/fake-supabase';
+import GroundedAnswerAgent, { fetchPageText } from '../src/agents/grounded-answer-agent';
+
+const searchResults = {
+  query: 'GraphAI',
+  web: {
+    results: [{ title: 'GraphAI', url: 'https://example.com/graphai', description: 'データフロー型のAIエージェントフレームワーク' }]
+  }
+};
+
+describe('GroundedAnswerAgent', () => {
+  before(() => {
+    installFakeSupabase();
+  });
+
+  it('指定したモデルで回答を作成する', async () => {
+    const { text } = await GroundedAnswerAgent.process({ question: 'GraphAIとは', searchResults, model: 'fake-search' });
+
+    assert.match(text, /^\[fake-search\] /);
+    assert.match(text, /https:\/\/example\.com\/graphai/);
+  });
+
+  it('モデルの指定がない場合はサーバー・チャンネルの設定のモデルを使う', async () => {
+    const { text } = await GroundedAnswerAgent.process({ question: 'GraphAIとは', searchResults, defaultModel: 'fake-guild' });
+
+    assert.match(text, /^\[fake-guild\] /);
+  });
+
+  it('利用できないモデルの場合は検索結果をそのまま返す', async () => {
+    const { text } = await GroundedAnswerAgent.process({ question: 'GraphAIとは', searchResults, model: 'unknown-model' });
+
+    assert.doesNotMatch(text, /^\[/);
+    assert.match(text, /GraphAI/);
+  });
+});
+
+describe('fetchPageText', () => {
+  // パスごとの応答を返すローカルのサーバー
+  const server = http.createServer((request, response) => {
+    switch (request.url) {
+      case '/html':
+        response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        response.end('<html><script>secret()</script><body><p>本文&nbsp;です</p></body></html>');
+        break;
+      case '/text':
+        response.writeHead(200, { 'Content-Type': 'text/plain' });
+        response.end('テキストの本文');
+        break;
+      case '/pdf':
+        response.writeHead(200, { 'Content-Type': 'application/pdf' });
+        response.end('%PDF-1.4');
+        break;
+      case '/large': {
+        // 読み込みを止めるまで送り続ける
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        const write = () => {
+          while (response.write(`<p>${'あ'.repeat(1000)}</p>`)) {}
+          response.once('drain', write);
+        };
+        write();
+        break;
+      }
+      default:
+        // 応答しない
+        break;
+    }
+  });
+  let baseUrl = '';
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('HTMLからスクリプトとタグを取り除いた本文を返す', async () => {
+    assert.equal(await fetchPageText(`${baseUrl}/html`), '本文 です');
+  });
+
+  it('テキストのページはそのまま返す', async () => {
+    assert.equal(await fetchPageText(`${baseUrl}/text`), 'テキストの本文');
+  });
+
+  it('HTML・テキスト以外のページは読み込まない', async () => {
+    assert.equal(await fetchPageText(`${baseUrl}/pdf`), '');
+  });
+
+  it('大きなページは上限まで読み込んで打ち切る', async () => {
+    const text = await fetchPageText(`${baseUrl}/large`);
+
+    assert.equal(text.length, 2000);
+    assert.match(text, /^あ+/);
+  });
+
+  it('タイムアウトした場合は空文字を返す', async () => {
+    const started = Date.now();
+
+    assert.equal(await fetchPageText(`${baseUrl}/slow`, 100), '');
+    assert.ok(Date.now() - started < 2000);
+  });
+});
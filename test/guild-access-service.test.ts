@@ -0,0 +1,131 @@
+/**
+ * サーバーアクセス管理サービスの動作確認
+ */
+
+import './helpers/env';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Guild } from 'discord.js';
+import supabase from '../src/db/supabase';
+import { installFakeSupabase, resetTables, tables } from './helpers/fake-supabase';
+import GuildAccessService from '../src/services/guild-access-service';
+import GuildAccessAgent from '../src/agents/guild-access-agent';
+import CommandParserAgent from '../src/agents/command-parser-agent';
+
+/**
+ * 退出したかどうかを記録するサーバーを作る
+ * @param id サーバーID
+ * @returns サーバーと退出の記録
+ */
+function createGuild(id: string) {
+  const state = { left: false };
+  const guild = {
+    id,
+    name: `guild ${id}`,
+    ownerId: 'owner',
+    memberCount: 1,
+    leave: async () => {
+      state.left = true;
+    }
+  } as unknown as Guild;
+
+  return { guild, state };
+}
+
+describe('GuildAccessService.enforce', () => {
+  beforeEach(() => {
+    installFakeSupabase();
+    resetTables();
+    delete process.env.GUILD_ID;
+    delete process.env.ALLOW_ALL_SERVERS;
+  });
+
+  it('拒否リストのサーバーから退出する', async () => {
+    await GuildAccessService.setGuildAccess('guild-1', 'deny');
+    const { guild, state } = createGuild('guild-1');
+
+    assert.equal(await GuildAccessService.enforce(guild), false);
+    assert.equal(state.left, true);
+  });
+
+  it('許可されていないことが確定したサーバーから退出する', async () => {
+    const { guild, state } = createGuild('guild-2');
+
+    assert.equal(await GuildAccessService.enforce(guild), false);
+    assert.equal(state.left, true);
+  });
+
+  it('登録状態を取得できない場合は退出しない', async () => {
+    (supabase as any).from = () => {
+      throw new Error('connection refused');
+    };
+    const { guild, state } = createGuild('guild-3');
+
+    assert.deepEqual(await GuildAccessService.checkGuild('guild-3'), { allowed: true, reason: 'lookup_failed' });
+    assert.equal(await GuildAccessService.enforce(guild), true);
+    assert.equal(state.left, false);
+  });
+
+  it('読み込み後に設定された環境変数を反映する', async () => {
+    process.env.GUILD_ID = 'guild-4';
+    assert.deepEqual(await GuildAccessService.checkGuild('guild-4'), { allowed: true, reason: 'guild_id' });
+
+    process.env.ALLOW_ALL_SERVERS = 'true';
+    assert.deepEqual(await GuildAccessService.checkGuild('guild-5'), { allowed: true, reason: 'allow_all_servers' });
+  });
+});
+
+describe('GuildAccessAgent', () => {
+  beforeEach(() => {
+    installFakeSupabase();
+    resetTables();
+    delete process.env.GUILD_ID;
+    delete process.env.ALLOW_ALL_SERVERS;
+  });
+
+  it('!guild はオーナーのみ実行できる', async () => {
+    const admin = await CommandParserAgent.process({ message: '!guild allow 123', permissionLevel: 'admin' });
+    const owner = await CommandParserAgent.process({ message: '!guild allow 123 検証用のサーバー', permissionLevel: 'owner' });
+
+    assert.equal(admin.requiredLevel, 'owner');
+    assert.equal(owner.error, undefined);
+    assert.equal(owner.handler, 'guildAccessAgent');
+    assert.deepEqual(owner.params, { action: 'allow', target: '123', note: '検証用のサーバー' });
+  });
+
+  it('許可リスト・拒否リストに登録し、登録を削除する', async () => {
+    const allowed = await GuildAccessAgent.process({ action: 'allow', target: '123', note: '検証用', userId: 'owner' });
+    assert.match(allowed.text || '', /許可リストに登録しました/);
+    assert.deepEqual(await GuildAccessService.checkGuild('123'), { allowed: true, reason: 'allowlist' });
+    assert.equal(tables.guild_access[0].note, '検証用');
+
+    await GuildAccessAgent.process({ action: 'deny', target: '123', userId: 'owner' });
+    assert.deepEqual(await GuildAccessService.checkGuild('123'), { allowed: false, reason: 'denylist' });
+    assert.equal(tables.guild_access.length, 1);
+
+    const removed = await GuildAccessAgent.process({ action: 'remove', target: '123', userId: 'owner' });
+    assert.match(removed.text || '', /登録を削除しました/);
+    assert.deepEqual(tables.guild_access, []);
+  });
+
+  it('サーバーIDを省略した場合は実行したサーバーの登録状態を表示する', async () => {
+    await GuildAccessService.setGuildAccess('456', 'allow');
+
+    const { text } = await GuildAccessAgent.process({ userId: 'owner', guildId: '456' });
+
+    assert.match(text || '', /サーバー 456/);
+    assert.match(text || '', /登録: 許可リスト/);
+    assert.match(text || '', /判定: 利用できます（allowlist）/);
+  });
+
+  it('不正な操作・サーバーIDの場合は変更しない', async () => {
+    const action = await GuildAccessAgent.process({ action: 'block', target: '123', userId: 'owner' });
+    const missing = await GuildAccessAgent.process({ action: 'allow', userId: 'owner' });
+    const invalid = await GuildAccessAgent.process({ action: 'allow', target: 'abc', userId: 'owner' });
+
+    assert.match(action.text || '', /show・allow・deny・remove/);
+    assert.match(missing.text || '', /サーバーIDを指定してください/);
+    assert.match(invalid.text || '', /正しいサーバーIDではありません/);
+    assert.equal(tables.guild_access?.length ?? 0, 0);
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * テスト用の環境変数
+ * 設定ファイル（config）を読み込む前に設定するため、テストファイルの最初にインポートする
+ */
+
+process.env.SUPABASE_URL = 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = 'test-anon-key';
+process.env.DISCORD_TOKEN = '';
+process.env.GEMINI_API_KEY = '';
+process.env.OPENAI_API_KEY = '';
+process.env.PREFIX = '!';
+// 外部APIを呼ばないプロバイダーを使う
+process.env.LLM_PROVIDER = 'fake';
+process.env.LLM_FALLBACK_MODELS = '';
+process.env.IMAGE_PROVIDER = 'stub';
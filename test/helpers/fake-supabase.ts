@@ -0,0 +1,148 @@
+/**
+ * テスト用のSupabaseクライアント
+ * テーブルをメモリ上の配列で置き換え、eqによる絞り込みと追加・更新・削除だけを扱う
+ * （それ以外の絞り込み・並べ替えは無視する）
+ */
+
+import supabase from '../../src/db/supabase';
+
+type Row = Record<string, any>;
+
+// テーブル名 → 行
+export const tables: Record<string, Row[]> = {};
+
+/**
+ * テーブルの操作を組み立てるクエリ
+ * awaitすると { data, error } を返す
+ */
+class FakeQuery implements PromiseLike<{ data: any; error: any }> {
+  private filters: Array<(row: Row) => boolean> = [];
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private values: Row[] = [];
+  private onConflict?: string;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private table: string) {
+    tables[table] ||= [];
+  }
+
+  select() { return this; }
+  order() { return this; }
+  limit() { return this; }
+  range() { return this; }
+  filter() { return this; }
+  gte() { return this; }
+  lte() { return this; }
+  lt() { return this; }
+  neq() { return this; }
+  ilike() { return this; }
+  in() { return this; }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  match(query: Row) {
+    Object.entries(query).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict;
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  private execute(): Row[] {
+    const rows = tables[this.table];
+    const matches = (row: Row) => this.filters.every(filter => filter(row));
+
+    switch (this.action) {
+      case 'insert':
+        const inserted = this.values.map((value, index) => ({ id: rows.length + index + 1, created_at: new Date().toISOString(), ...value }));
+        rows.push(...inserted);
+        return inserted;
+
+      case 'upsert':
+        return this.values.map(value => {
+          const key = this.onConflict || 'id';
+          const existing = rows.find(row => row[key] === value[key]);
+          if (existing) {
+            return Object.assign(existing, value);
+          }
+          const row = { id: rows.length + 1, ...value };
+          rows.push(row);
+          return row;
+        });
+
+      case 'update':
+        return rows.filter(matches).map(row => Object.assign(row, this.values[0]));
+
+      case 'delete':
+        const removed = rows.filter(matches);
+        tables[this.table] = rows.filter(row => !matches(row));
+        return removed;
+
+      default:
+        return rows.filter(matches);
+    }
+  }
+
+  then<T1 = { data: any; error: any }, T2 = never>(
+    onfulfilled?: ((value: { data: any; error: any }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    const rows = this.execute();
+    const result = this.mode === 'many' ?
+      { data: rows, error: null } :
+      rows.length > 0 || this.mode === 'maybeSingle' ?
+        { data: rows[0] ?? null, error: null } :
+        { data: null, error: { code: 'PGRST116', message: 'No rows returned' } };
+
+    return Promise.resolve(result).then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * Supabaseクライアントのテーブル操作をメモリ上のテーブルに置き換える
+ */
+export function installFakeSupabase(): void {
+  (supabase as any).from = (table: string) => new FakeQuery(table);
+  (supabase as any).rpc = async () => ({ data: null, error: null });
+}
+
+/**
+ * メモリ上のテーブルを空にする
+ */
+export function resetTables(): void {
+  Object.keys(tables).forEach(table => delete tables[table]);
+}
@@ -0,0 +1,44 @@
+/**
+ * 画像生成プロバイダーの動作確認
+ */
+
+import './helpers/env';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getImageProvider } from '../src/services/image-providers';
+import { detectMimeType } from '../src/services/image-providers/recraft-provider';
+
+describe('getImageProvider', () => {
+  afterEach(() => {
+    process.env.IMAGE_PROVIDER = 'stub';
+  });
+
+  it('参照するたびに環境変数IMAGE_PROVIDERのプロバイダーを使う', () => {
+    assert.equal(getImageProvider().name, 'stub');
+
+    process.env.IMAGE_PROVIDER = 'recraft';
+    assert.equal(getImageProvider().name, 'recraft');
+  });
+
+  it('不明なプロバイダーの場合はエラーにする', () => {
+    process.env.IMAGE_PROVIDER = 'unknown';
+
+    assert.throws(() => getImageProvider(), /Unknown image provider: unknown/);
+  });
+});
+
+describe('Recraftの画像のMIMEタイプ', () => {
+  it('レスポンスのContent-Typeを使う', () => {
+    assert.equal(detectMimeType('image/svg+xml; charset=utf-8', 'https://img.recraft.ai/a/image'), 'image/svg+xml');
+    assert.equal(detectMimeType('image/png', 'https://img.recraft.ai/a/image.webp'), 'image/png');
+  });
+
+  it('Content-Typeが画像でない場合はURLの拡張子から判定する', () => {
+    assert.equal(detectMimeType('application/octet-stream', 'https://img.recraft.ai/a/image.SVG?token=1'), 'image/svg+xml');
+    assert.equal(detectMimeType(null, 'https://img.recraft.ai/a/image.jpg'), 'image/jpeg');
+  });
+
+  it('判定できない場合はWebPとして扱う', () => {
+    assert.equal(detectMimeType(null, 'https://img.recraft.ai/a/image'), 'image/webp');
+  });
+});
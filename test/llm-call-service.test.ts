@@ -0,0 +1,103 @@
+/**
+ * LLM呼び出しサービスの動作確認
+ */
+
+import './helpers/env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase } from './helpers/fake-supabase';
+import LlmCallService from '../src/services/llm-call-service';
+import { findLlmProvider, LlmProvider } from '../src/services/llm-providers';
+
+/**
+ * 常に指定したエラーを投げるプロバイダーを作る
+ * @param name プロバイダー名
+ * @param error 投げるエラー
+ * @returns プロバイダー
+ */
+function failingProvider(name: string, error: Error): LlmProvider {
+  return {
+    name,
+    ownsModel: () => false,
+    getDefaultModel: async () => name,
+    chat: async () => {
+      throw error;
+    },
+    stream: async () => {
+      throw error;
+    },
+    countTokens: async () => 0,
+    checkUsageLimit: async () => true,
+    trackUsage: async () => true
+  };
+}
+
+const usage = { requestType: 'text', content: 'test' };
+
+describe('LlmCallService.toUserMessage', () => {
+  before(() => {
+    installFakeSupabase();
+  });
+
+  it('エラーの種類に応じたメッセージを返し、エラーの内容は表示しない', () => {
+    const rateLimit = LlmCallService.toUserMessage(Object.assign(new Error('secret quota detail'), { status: 429 }));
+    const safety = LlmCallService.toUserMessage(new Error('Response was blocked due to SAFETY'));
+    const unknown = LlmCallService.toUserMessage(new Error('secret internal detail'));
+
+    assert.match(rateLimit, /混み合っている/);
+    assert.match(safety, /安全性のフィルター/);
+    assert.doesNotMatch(rateLimit + safety + unknown, /secret/);
+  });
+
+  it('サーキットブレーカーが開いている場合は接続できないことを知らせる', async () => {
+    const provider = failingProvider('test-auth', Object.assign(new Error('invalid api key'), { status: 401 }));
+    const selection = { provider, model: 'test-auth' };
+
+    // 続けて失敗するとサーキットブレーカーが開く
+    for (let i = 0; i < 5; i++) {
+      await assert.rejects(LlmCallService.chat(selection, { model: 'test-auth', messages: [] }, usage));
+    }
+    assert.equal(LlmCallService.isCircuitOpen('test-auth'), true);
+
+    const error = await LlmCallService.chat(selection, { model: 'test-auth', messages: [] }, usage).catch(error => error);
+    assert.match(error.message, /circuit open/);
+    assert.match(LlmCallService.toUserMessage(error), /接続できない/);
+  });
+});
+
+describe('LlmCallService.call', () => {
+  const fake = findLlmProvider('fake')!;
+  const checkUsageLimit = fake.checkUsageLimit;
+
+  before(() => {
+    installFakeSupabase();
+    // 予備のモデル（fake）は使用量制限に達している
+    process.env.LLM_FALLBACK_MODELS = 'fake';
+    fake.checkUsageLimit = async () => false;
+  });
+
+  after(() => {
+    process.env.LLM_FALLBACK_MODELS = '';
+    fake.checkUsageLimit = checkUsageLimit;
+  });
+
+  it('すべての候補が使用量制限に達している場合はnullを返す', async () => {
+    const provider = { ...failingProvider('test-limit', new Error('not called')), checkUsageLimit: async () => false };
+
+    assert.equal(await LlmCallService.chat({ provider, model: 'test-limit' }, { model: 'test-limit', messages: [] }, usage), null);
+  });
+
+  it('サーキットブレーカーが開いている候補と使用量制限に達した候補の場合は接続できないエラーにする', async () => {
+    const provider = failingProvider('test-open', new Error('not called'));
+    for (let i = 0; i < 5; i++) {
+      await LlmCallService.recordResult('test-open', { kind: 'unavailable', retryable: true, message: 'unavailable' });
+    }
+
+    const error = await LlmCallService.chat({ provider, model: 'test-open' }, { model: 'test-open', messages: [] }, usage)
+      .catch(error => error);
+
+    assert.ok(error instanceof Error);
+    assert.equal((error as any).status, 503);
+    assert.match(LlmCallService.toUserMessage(error), /接続できない/);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * LLMプロバイダーの選択の動作確認
+ */
+
+import './helpers/env';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findLlmProvider, listLlmProviders, resolveLlmModel } from '../src/services/llm-providers';
+
+describe('動作確認用のfakeプロバイダー', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.LLM_PROVIDER = 'fake';
+    if (nodeEnv === undefined) {
+      delete process.env.NODE_ENV;
+    } else {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+
+  it('LLM_PROVIDER=fake の場合はモデル名で選べる', async () => {
+    delete process.env.NODE_ENV;
+
+    assert.equal(findLlmProvider('fake-mini')?.name, 'fake');
+    assert.deepEqual(await resolveLlmModel('fake-mini'), { provider: findLlmProvider('fake'), model: 'fake-mini' });
+  });
+
+  it('LLM_PROVIDERがfake以外の場合は選べない', async () => {
+    delete process.env.NODE_ENV;
+    process.env.LLM_PROVIDER = 'gemini';
+
+    assert.equal(findLlmProvider('fake'), undefined);
+    assert.equal(findLlmProvider('fake-mini'), undefined);
+    assert.equal(await resolveLlmModel('fake'), null);
+    assert.deepEqual(listLlmProviders(), ['gemini', 'openai']);
+  });
+
+  it('テストの実行時（NODE_ENV=test）は選べる', () => {
+    process.env.NODE_ENV = 'test';
+    process.env.LLM_PROVIDER = 'gemini';
+
+    assert.equal(findLlmProvider('fake-mini')?.name, 'fake');
+    assert.deepEqual(listLlmProviders(), ['gemini', 'openai', 'fake']);
+  });
+});
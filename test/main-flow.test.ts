@@ -0,0 +1,90 @@
+/**
+ * mainフローの動作確認
+ * 外部APIを呼ばないプロバイダー（LLM: fake、画像: stub）とメモリ上のSupabaseでフロー全体を実行する
+ */
+
+import './helpers/env';
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase, resetTables } from './helpers/fake-supabase';
+import engine from '../src/graphai-engine';
+import AgentRegistry from '../src/agents';
+import BotSettingsService from '../src/services/bot-settings-service';
+
+/**
+ * mainフローの入力を作る
+ * @param content 発言の内容
+ * @returns discordInput
+ */
+function discordInput(content: string) {
+  return {
+    messageId: `message-${Date.now()}`,
+    guildId: 'guild-1',
+    channelId: 'channel-1',
+    isBotThread: false,
+    memberPermissions: [],
+    memberRoles: [],
+    content,
+    authorId: 'user-1',
+    username: 'tester',
+    attachments: []
+  };
+}
+
+describe('main flow', () => {
+  before(async () => {
+    installFakeSupabase();
+    await engine.initialize();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('!help でコマンドの一覧を返す', async () => {
+    const result = await engine.execute('main', { discordInput: discordInput('!help') });
+
+    assert.equal(result.error, undefined);
+    assert.match(result.discordOutput, /help/);
+  });
+
+  it('通常の発言にLLMの応答を返す', async () => {
+    const result = await engine.execute('main', { discordInput: discordInput('こんにちは') });
+
+    assert.equal(result.error, undefined);
+    assert.match(result.discordOutput, /^\[fake\] .*こんにちは/s);
+  });
+
+  it('--model で指定したモデルで応答する', async () => {
+    await BotSettingsService.updateScopedConfig({ type: 'guild', id: 'guild-1' }, { trusted_users: ['user-1'] });
+    const result = await engine.execute('main', { discordInput: discordInput('!ask --model fake-mini 調子はどう？') });
+
+    assert.equal(result.error, undefined);
+    assert.match(result.discordOutput, /^\[fake-mini\] .*調子はどう？/s);
+  });
+
+  it('信頼されたユーザーでない場合は --model を指定できない', async () => {
+    const result = await engine.execute('main', { discordInput: discordInput('!ask --model fake-mini 調子はどう？') });
+
+    assert.match(result.discordOutput, /オプション --model は信頼されたユーザーのみ指定できます/);
+  });
+
+  it('!image で生成した画像を添付する', async () => {
+    const result = await engine.execute('main', { discordInput: discordInput('!image 猫の絵 --size 1024x1024') });
+
+    assert.equal(result.error, undefined);
+    assert.match(result.discordOutput, /猫の絵/);
+    assert.equal(result.files?.length, 1);
+    assert.ok(Buffer.from(result.files[0].data, 'base64').length > 0);
+  });
+
+  it('フローのノードのエージェントはすべてレジストリに登録されている', () => {
+    const registered = AgentRegistry.listAgents().map(agent => agent.name);
+    const used = Object.values(engine.flows.main.nodes)
+      .map((node: any) => node.agent)
+      .filter((agent): agent is string => typeof agent === 'string');
+
+    assert.deepEqual(used.filter(agent => !registered.includes(agent)), []);
+    assert.throws(() => AgentRegistry.register(AgentRegistry.require('commandParserAgent')), /already registered/);
+  });
+});
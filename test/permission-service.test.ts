@@ -0,0 +1,24 @@
+/**
+ * 権限サービスの動作確認
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import PermissionService from '../src/services/permission-service';
+
+describe('PermissionService.getPermissionLevel', () => {
+  it('読み込み後に設定されたBOT_OWNER_IDSを反映する', () => {
+    process.env.BOT_OWNER_IDS = 'owner-1, owner-2';
+
+    assert.equal(PermissionService.getPermissionLevel({ userId: 'owner-2' }), 'owner');
+    assert.equal(PermissionService.getPermissionLevel({ userId: 'user-1' }), 'everyone');
+  });
+
+  it('サーバーの管理権限を持つメンバーはサーバー管理者', () => {
+    assert.equal(PermissionService.getPermissionLevel({
+      userId: 'user-1',
+      guildId: 'guild-1',
+      memberPermissions: ['ManageGuild']
+    }), 'admin');
+  });
+});
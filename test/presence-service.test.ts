@@ -0,0 +1,129 @@
+/**
+ * ステータスと入力中の表示の動作確認
+ * クライアントとチャンネルは表示の内容を記録し、タイマーと時刻はモックで進める
+ */
+
+import './helpers/env';
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate as waitImmediate } from 'node:timers/promises';
+import { Client } from 'discord.js';
+import { installFakeSupabase } from './helpers/fake-supabase';
+import PresenceService from '../src/services/presence-service';
+
+/**
+ * 外から終わらせられる処理を作る
+ * @returns 処理と終わらせる関数
+ */
+function deferred(): { task: () => Promise<string>; resolve: (value: string) => void } {
+  let resolve: (value: string) => void = () => {};
+  const promise = new Promise<string>(done => {
+    resolve = done;
+  });
+  return { task: () => promise, resolve };
+}
+
+/**
+ * 時刻を進めて、タイマーから始まった処理が終わるのを待つ
+ * @param ms 進める時間（ミリ秒）
+ */
+async function advance(ms: number): Promise<void> {
+  mock.timers.tick(ms);
+  for (let i = 0; i < 5; i++) {
+    await waitImmediate();
+  }
+}
+
+describe('PresenceService', () => {
+  let activities: string[] = [];
+  const client = {
+    user: {
+      setPresence: (presence: { activities: Array<{ name: string }> }) => {
+        activities.push(presence.activities[0].name);
+      }
+    }
+  } as unknown as Client;
+
+  before(() => {
+    installFakeSupabase();
+  });
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'setInterval', 'Date'] });
+    activities = [];
+    PresenceService.attach(client);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('クライアントを設定すると待機中のステータスを表示する', () => {
+    assert.deepEqual(activities, ['チャット待機中']);
+    assert.equal(PresenceService.getActiveRequests(), 0);
+  });
+
+  it('同時に処理中のリクエストは数をまとめて表示し、短い間の変化では切り替えない', async () => {
+    const first = deferred();
+    const second = deferred();
+
+    const results = [PresenceService.track(first.task), PresenceService.track(second.task)];
+    assert.equal(PresenceService.getActiveRequests(), 2);
+
+    await advance(4999);
+    assert.deepEqual(activities, ['チャット待機中']);
+
+    await advance(1);
+    assert.deepEqual(activities, ['チャット待機中', '2件の応答を生成中']);
+
+    first.resolve('一つ目');
+    second.resolve('二つ目');
+    assert.deepEqual(await Promise.all(results), ['一つ目', '二つ目']);
+    assert.equal(PresenceService.getActiveRequests(), 0);
+
+    await advance(5000);
+    assert.deepEqual(activities, ['チャット待機中', '2件の応答を生成中', 'チャット待機中']);
+  });
+
+  it('処理中は入力中の表示を出し続け、終わったら止める', async () => {
+    let typing = 0;
+    const channel = { sendTyping: async () => typing++ };
+    const { task, resolve } = deferred();
+
+    const result = PresenceService.track(task, channel);
+    assert.equal(typing, 1);
+
+    await advance(16000);
+    assert.equal(typing, 3);
+
+    resolve('完了');
+    assert.equal(await result, '完了');
+
+    await advance(16000);
+    assert.equal(typing, 3);
+  });
+
+  it('処理が例外で終わった場合も数と入力中の表示を元に戻す', async () => {
+    let typing = 0;
+    const channel = { sendTyping: async () => typing++ };
+
+    await assert.rejects(PresenceService.track(async () => {
+      throw new Error('生成に失敗');
+    }, channel), /生成に失敗/);
+    assert.equal(PresenceService.getActiveRequests(), 0);
+
+    await advance(16000);
+    assert.equal(typing, 1);
+    // 待機中のまま変わらないため、ステータスは更新しない
+    assert.deepEqual(activities, ['チャット待機中']);
+  });
+
+  it('入力中の表示に失敗しても処理を続ける', async () => {
+    const channel = { sendTyping: async () => {
+      throw new Error('Missing Access');
+    } };
+
+    assert.equal(await PresenceService.track(async () => '応答', channel), '応答');
+    await advance(5000);
+  });
+});
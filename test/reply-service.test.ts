@@ -0,0 +1,94 @@
+/**
+ * 返信の分割の動作確認
+ */
+
+import './helpers/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import ReplyService from '../src/services/reply-service';
+
+/**
+ * コードフェンスの行数を数える
+ * @param chunk 分割されたテキスト
+ * @returns コードフェンスの行数
+ */
+function countFences(chunk: string): number {
+  return chunk.split('\n').filter(line => line.trimStart().startsWith('```')).length;
+}
+
+/**
+ * 分割されたテキストのコードブロックの中身を取り出して連結する
+ * @param chunks 分割されたテキスト
+ * @returns コードブロックの中身
+ */
+function codeOf(chunks: string[]): string {
+  return chunks
+    .map(chunk => chunk.split('\n').filter(line => !line.startsWith('```')).join('\n'))
+    .join('\n');
+}
+
+describe('ReplyService.splitMessage', () => {
+  it('制限内のテキストは分割しない', () => {
+    assert.deepEqual(ReplyService.splitMessage('こんにちは\n\n元気です', 100), ['こんにちは\n\n元気です']);
+  });
+
+  it('制限を超えるテキストは段落の区切りで分割する', () => {
+    const paragraphs = Array.from({ length: 6 }, (_, index) => `${index + 1}段落目。`.padEnd(30, 'あ'));
+    const chunks = ReplyService.splitMessage(paragraphs.join('\n\n'), 100);
+
+    assert.ok(chunks.length > 1);
+    chunks.forEach(chunk => assert.ok(chunk.length <= 100, chunk));
+    assert.deepEqual(chunks.join('\n\n').split('\n\n'), paragraphs);
+  });
+
+  it('コードブロックの途中で分割した場合は閉じて次のメッセージで開き直す', () => {
+    const lines = Array.from({ length: 20 }, (_, index) => `const value${index} = ${index};`);
+    const chunks = ReplyService.splitMessage(`例です。\n\`\`\`ts\n${lines.join('\n')}\n\`\`\`\n以上です。`, 120);
+
+    assert.ok(chunks.length > 2);
+    chunks.forEach(chunk => {
+      assert.ok(chunk.length <= 120, chunk);
+      assert.equal(countFences(chunk) % 2, 0, chunk);
+    });
+    chunks.slice(1, -1).forEach(chunk => assert.match(chunk, /^```ts\n/));
+    assert.match(chunks[chunks.length - 1], /以上です。$/);
+    assert.equal(codeOf(chunks).split('\n').filter(line => line.startsWith('const')).join('\n'), lines.join('\n'));
+  });
+
+  it('制限より長いコードの行は文字数で分割し、中身のないコードブロックを作らない', () => {
+    const longLine = 'x'.repeat(250);
+    const chunks = ReplyService.splitMessage(`\`\`\`ts\n${longLine}\n\`\`\``, 100);
+
+    assert.ok(chunks.length >= 3);
+    chunks.forEach(chunk => {
+      assert.ok(chunk.length <= 100, chunk);
+      assert.match(chunk, /^```ts\nx+\n```$/);
+    });
+    assert.equal(codeOf(chunks).replace(/\n/g, ''), longLine);
+  });
+
+  it('本文の後のコードブロックの長い行は開始行から次のメッセージにする', () => {
+    const chunks = ReplyService.splitMessage(`説明です。\n\`\`\`\n${'y'.repeat(150)}\n\`\`\``, 100);
+
+    assert.equal(chunks[0], '説明です。');
+    chunks.slice(1).forEach(chunk => assert.match(chunk, /^```\ny+\n```$/));
+  });
+
+  it('コードブロックの終了行の直前で分割した場合は次のメッセージで開き直さない', () => {
+    const code = 'z'.repeat(88);
+    const chunks = ReplyService.splitMessage(`\`\`\`\n${code}\n\`\`\`\n続きの文章です。`, 100);
+
+    assert.deepEqual(chunks, [`\`\`\`\n${code}\n\`\`\``, '続きの文章です。']);
+  });
+
+  it('マルチバイト文字・サロゲートペアの途中で分割しない', () => {
+    const text = 'あ😀'.repeat(100);
+    const chunks = ReplyService.splitMessage(text, 51);
+
+    chunks.forEach(chunk => {
+      assert.ok(chunk.length <= 51, chunk);
+      assert.doesNotMatch(chunk, /[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/u);
+    });
+    assert.equal(chunks.join(''), text);
+  });
+});
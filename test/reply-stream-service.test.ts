@@ -0,0 +1,164 @@
+/**
+ * 生成しながらの返信の動作確認
+ * 返信先は送信・編集・削除の内容を記録し、タイマーと時刻はモックで進める
+ */
+
+import './helpers/env';
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate as waitImmediate } from 'node:timers/promises';
+import { Message } from 'discord.js';
+import { installFakeSupabase } from './helpers/fake-supabase';
+import ReplyStreamService, { ReplyStreamTarget } from '../src/services/reply-stream-service';
+
+type Operation =
+  | { type: 'send'; index: number; content: string; extras: boolean }
+  | { type: 'edit'; id: string; content: string; extras: boolean }
+  | { type: 'remove'; id: string };
+
+/**
+ * 操作を記録する返信先を作る
+ * @returns 返信先と記録した操作
+ */
+function recordingTarget(): { target: ReplyStreamTarget; operations: Operation[] } {
+  const operations: Operation[] = [];
+  let sent = 0;
+  const hasExtras = (payload: Record<string, any>) => !!(payload.files?.length || payload.embeds?.length || payload.components?.length);
+
+  return {
+    operations,
+    target: {
+      async send(payload, index) {
+        operations.push({ type: 'send', index, content: payload.content, extras: hasExtras(payload) });
+        return { id: `message-${++sent}` } as unknown as Message;
+      },
+      async edit(message, payload) {
+        operations.push({ type: 'edit', id: message.id, content: payload.content, extras: hasExtras(payload) });
+      },
+      async remove(message) {
+        operations.push({ type: 'remove', id: message.id });
+      }
+    }
+  };
+}
+
+/**
+ * 時刻を進めて、タイマーから始まった編集が終わるのを待つ
+ * @param ms 進める時間（ミリ秒）
+ */
+async function advance(ms: number): Promise<void> {
+  mock.timers.tick(ms);
+  for (let i = 0; i < 5; i++) {
+    await waitImmediate();
+  }
+}
+
+describe('ReplyStreamService', () => {
+  before(() => {
+    installFakeSupabase();
+  });
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('応答待ちのメッセージは一度だけ送信する', async () => {
+    const { target, operations } = recordingTarget();
+    const stream = ReplyStreamService.open('stream-1', target);
+
+    assert.equal(stream.started, false);
+    await stream.start();
+    await stream.start();
+
+    assert.equal(stream.started, true);
+    assert.deepEqual(operations, [{ type: 'send', index: 0, content: '考え中...', extras: false }]);
+    assert.equal(ReplyStreamService.get('stream-1'), stream);
+
+    ReplyStreamService.close('stream-1');
+    assert.equal(ReplyStreamService.get('stream-1'), undefined);
+  });
+
+  it('応答待ちのメッセージを送信するまでは更新しない', async () => {
+    const { target, operations } = recordingTarget();
+    const stream = ReplyStreamService.open('stream-2', target);
+
+    stream.update('途中まで');
+    await advance(5000);
+
+    assert.deepEqual(operations, []);
+    ReplyStreamService.close('stream-2');
+  });
+
+  it('間隔内の更新はまとめて最後のテキストで編集する', async () => {
+    const { target, operations } = recordingTarget();
+    const stream = ReplyStreamService.open('stream-3', target);
+    await stream.start();
+
+    stream.update('こん');
+    stream.update('こんにち');
+    await advance(1000);
+    assert.equal(operations.length, 1);
+
+    stream.update('こんにちは');
+    await advance(200);
+    assert.deepEqual(operations.slice(1), [{ type: 'edit', id: 'message-1', content: 'こんにちは', extras: false }]);
+
+    // 同じ内容では編集しない
+    stream.update('こんにちは');
+    await advance(1200);
+    assert.equal(operations.length, 2);
+    ReplyStreamService.close('stream-3');
+  });
+
+  it('2000文字を超えた分は新しいメッセージに続け、確定時に余ったメッセージを削除する', async () => {
+    const { target, operations } = recordingTarget();
+    const stream = ReplyStreamService.open('stream-4', target);
+    await stream.start();
+
+    const long = `${'あ'.repeat(1500)}\n\n${'い'.repeat(1500)}`;
+    stream.update(long);
+    await advance(1200);
+
+    assert.deepEqual(operations.slice(1), [
+      { type: 'edit', id: 'message-1', content: 'あ'.repeat(1500), extras: false },
+      { type: 'send', index: 1, content: 'い'.repeat(1500), extras: false }
+    ]);
+
+    assert.equal(await stream.finish('短い応答'), true);
+    assert.deepEqual(operations.slice(3), [
+      { type: 'edit', id: 'message-1', content: '短い応答', extras: false },
+      { type: 'remove', id: 'message-2' }
+    ]);
+    ReplyStreamService.close('stream-4');
+  });
+
+  it('確定時は待っている更新を取り消し、内容が同じでも埋め込みを付けて編集する', async () => {
+    const { target, operations } = recordingTarget();
+    const stream = ReplyStreamService.open('stream-5', target);
+    await stream.start();
+
+    stream.update('考え中...');
+    assert.equal(await stream.finish('考え中...', { embeds: [{ title: '出典' }] }), true);
+    await advance(5000);
+
+    assert.deepEqual(operations.slice(1), [{ type: 'edit', id: 'message-1', content: '考え中...', extras: true }]);
+    ReplyStreamService.close('stream-5');
+  });
+
+  it('応答待ちのメッセージの送信に失敗した場合は開始しない', async () => {
+    const { target } = recordingTarget();
+    target.send = async () => {
+      throw new Error('Missing Permissions');
+    };
+    const stream = ReplyStreamService.open('stream-6', target);
+
+    await stream.start();
+
+    assert.equal(stream.started, false);
+    ReplyStreamService.close('stream-6');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * 検索結果埋め込みフォーマッターとページ送りの動作確認
+ * webSearchAgentは検索を置き換えて呼び出しの内容を記録する
+ */
+
+import './helpers/env';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase, resetTables, tables } from './helpers/fake-supabase';
+import SearchEmbedFormatterAgent, { MAX_EMBEDS } from '../src/agents/search-embed-formatter-agent';
+import WebSearchAgent, { WebSearchInput } from '../src/agents/web-search-agent';
+import engine from '../src/graphai-engine';
+
+/**
+ * 検索結果を作る
+ * @param length 件数
+ * @returns webSearchAgentの検索結果
+ */
+function searchResults(length: number) {
+  return {
+    query: 'rust',
+    web: {
+      results: Array.from({ length }, (_, index) => ({
+        title: `結果${index + 1}`,
+        url: `https://example.com/${index + 1}`,
+        description: `説明${index + 1}`
+      }))
+    }
+  };
+}
+
+describe('SearchEmbedFormatterAgent', () => {
+  before(() => {
+    installFakeSupabase();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('検索結果ごとに埋め込みを作り、検索セッションのページ送りボタンを付ける', async () => {
+    const output = await SearchEmbedFormatterAgent.process({ searchResults: searchResults(5), options: { count: 5 }, userId: 'user-1' });
+
+    assert.equal(output.embeds?.length, 5);
+    assert.equal(output.embeds?.[0].title, '1. 結果1');
+    assert.equal(output.embeds?.[4].footer?.text, 'Brave Search・1ページ目');
+    assert.equal(tables.search_sessions.length, 1);
+
+    const [previous, next] = output.components?.[0].components || [];
+    assert.equal((previous as any).custom_id, 'search:1:-1');
+    assert.equal(previous.disabled, true);
+    assert.equal((next as any).custom_id, 'search:1:1');
+    assert.equal(next.disabled, false);
+  });
+
+  it('埋め込みはDiscordの上限の10件までにする', async () => {
+    const output = await SearchEmbedFormatterAgent.process({ searchResults: searchResults(20), options: { count: 20, offset: 1 }, sessionId: 'session-1' });
+
+    assert.equal(output.embeds?.length, MAX_EMBEDS);
+    assert.equal(output.embeds?.[0].title, '11. 結果1');
+    assert.equal(output.embeds?.[9].footer?.text, 'Brave Search・2ページ目');
+  });
+
+  it('件数に満たない場合は次へのボタンを無効にする', async () => {
+    const output = await SearchEmbedFormatterAgent.process({ searchResults: searchResults(3), options: { count: 5 }, sessionId: 'session-1' });
+
+    const [, next] = output.components?.[0].components || [];
+    assert.equal(next.disabled, true);
+  });
+});
+
+describe('検索結果のページ送り', () => {
+  const originalProcess = WebSearchAgent.process;
+  let requests: WebSearchInput[] = [];
+
+  before(() => {
+    installFakeSupabase();
+    WebSearchAgent.process = async (input: WebSearchInput) => {
+      requests.push(input);
+      return searchResults(input.count || 5);
+    };
+  });
+
+  after(() => {
+    WebSearchAgent.process = originalProcess;
+  });
+
+  beforeEach(() => {
+    resetTables();
+    requests = [];
+  });
+
+  it('保存した検索条件で指定したページを取得する', async () => {
+    tables.search_sessions = [{ id: 'session-1', query: 'rust', options: { count: 3, freshness: 'pw' } }];
+
+    const page = await engine.paginateSearch('session-1', 2);
+
+    assert.deepEqual(requests, [{ query: 'rust', count: 3, freshness: 'pw', offset: 2 }]);
+    assert.equal(page?.embeds?.[0].title, '7. 結果1');
+
+    const [previous, next] = page?.components?.[0].components || [];
+    assert.equal((previous as any).custom_id, 'search:session-1:1');
+    assert.equal((next as any).custom_id, 'search:session-1:3');
+  });
+
+  it('上限より多い件数で保存されたセッションは10件ずつ取得する', async () => {
+    tables.search_sessions = [{ id: 'session-1', query: 'rust', options: { count: 20 } }];
+
+    const page = await engine.paginateSearch('session-1', 1);
+
+    assert.equal(requests[0].count, MAX_EMBEDS);
+    assert.equal(page?.embeds?.length, MAX_EMBEDS);
+    assert.equal(page?.embeds?.[0].title, '11. 結果1');
+  });
+
+  it('セッションが見つからない場合はnullを返す', async () => {
+    assert.equal(await engine.paginateSearch('missing', 1), null);
+    assert.equal(requests.length, 0);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * スラッシュコマンドサービスの動作確認
+ */
+
+import './helpers/env';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatInputCommandInteraction } from 'discord.js';
+import SlashCommandService from '../src/services/slash-command-service';
+import CommandParserAgent from '../src/agents/command-parser-agent';
+
+/**
+ * スラッシュコマンドの入力を作る
+ * @param commandName コマンド名
+ * @param values オプション名 → 入力された値
+ * @returns インタラクション
+ */
+function createInteraction(commandName: string, values: Record<string, string | number>) {
+  return {
+    commandName,
+    options: {
+      getString: (name: string) => (values[name] as string) ?? null,
+      getInteger: (name: string) => (values[name] as number) ?? null,
+      getBoolean: (name: string) => !!values[name],
+      getAttachment: () => null
+    }
+  } as unknown as ChatInputCommandInteraction;
+}
+
+describe('SlashCommandService.toFlowInput', () => {
+  it('本文中の "--" で始まる語をオプションとして解析しない', async () => {
+    const input = SlashCommandService.toFlowInput(createInteraction('ask', { question: '--model の使い方は？', model: 'fake' }), '!');
+    const parsed = await CommandParserAgent.process({ message: input!.content, permissionLevel: 'trusted' });
+
+    assert.equal(parsed.error, undefined);
+    assert.equal(parsed.args, '--model の使い方は？');
+    assert.equal(parsed.chatModel, 'fake');
+  });
+
+  it('本文の引用符と改行を入力のまま渡す', async () => {
+    const fact = 'I like "tea"\n「緑茶」も好き';
+    const input = SlashCommandService.toFlowInput(createInteraction('remember', { fact }), '!');
+    const parsed = await CommandParserAgent.process({ message: input!.content });
+
+    assert.equal(parsed.error, undefined);
+    assert.equal(parsed.params?.fact, fact);
+  });
+});
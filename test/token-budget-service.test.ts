@@ -0,0 +1,116 @@
+/**
+ * 会話履歴のトークン数の調整の動作確認
+ */
+
+import './helpers/env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import TokenBudgetService from '../src/services/token-budget-service';
+import { ConversationMessage } from '../src/services/conversation-service';
+import { LlmMessage, LlmProvider, LlmSelection } from '../src/services/llm-providers';
+import config from '../src/config';
+
+/**
+ * countTokensが指定した値を返す（省略時は失敗する）モデルを作る
+ * @param tokens countTokensの結果
+ * @returns プロバイダーとモデル
+ */
+function selection(tokens?: number): LlmSelection {
+  const provider = {
+    name: 'test',
+    countTokens: async () => {
+      if (tokens === undefined) {
+        throw new Error('offline');
+      }
+      return tokens;
+    }
+  } as unknown as LlmProvider;
+
+  return { provider, model: 'test-model' };
+}
+
+/**
+ * 会話履歴のメッセージを作る（16文字 = 見積もり8トークン）
+ * @param role ロール
+ * @param label メッセージの区別
+ * @returns メッセージ
+ */
+function message(role: 'user' | 'assistant', label: string): ConversationMessage {
+  return { role, content: label.padEnd(16, '.'), timestamp: '2026-01-01T00:00:00.000Z' };
+}
+
+const toMessage = (item: ConversationMessage): LlmMessage => ({ role: item.role, content: item.content });
+
+// システムプロンプト（見積もり5トークン）
+const SYSTEM = 'sys';
+
+// 見積もりは 5 + 8 × 5 = 45 トークン
+const history = [
+  message('user', 'u1'),
+  message('assistant', 'a1'),
+  message('user', 'u2'),
+  message('assistant', 'a2'),
+  message('user', 'u3')
+];
+
+describe('TokenBudgetService.estimateTokens', () => {
+  it('CJKは1文字1トークン、それ以外は4文字1トークンで見積もる', () => {
+    assert.equal(TokenBudgetService.estimateTokens('こんにちは'), 5 + 4);
+    assert.equal(TokenBudgetService.estimateTokens('hello world!'), 3 + 4);
+    assert.equal(TokenBudgetService.estimateTokens('日本語 text'), 3 + 2 + 4);
+  });
+});
+
+describe('TokenBudgetService.trimToBudget', () => {
+  before(() => {
+    config.conversation.tokenBudgets['test-model'] = 29;
+  });
+
+  after(() => {
+    delete config.conversation.tokenBudgets['test-model'];
+  });
+
+  it('上限に収まる場合は削らない', async () => {
+    const result = await TokenBudgetService.trimToBudget(selection(29), history, SYSTEM, toMessage);
+
+    assert.deepEqual(result, { kept: history, dropped: [], totalTokens: 29 });
+  });
+
+  it('古い発言から上限に収まるところまで削る', async () => {
+    const result = await TokenBudgetService.trimToBudget(selection(), history, SYSTEM, toMessage);
+
+    assert.deepEqual(result.kept, history.slice(2));
+    assert.deepEqual(result.dropped, history.slice(0, 2));
+    assert.equal(result.totalTokens, 29);
+  });
+
+  it('残した履歴がモデルの応答から始まる場合は、その応答も削る', async () => {
+    config.conversation.tokenBudgets['test-model'] = 21;
+
+    const result = await TokenBudgetService.trimToBudget(selection(), history, SYSTEM, toMessage);
+
+    assert.deepEqual(result.kept, [history[4]]);
+    assert.deepEqual(result.dropped, history.slice(0, 4));
+    assert.equal(result.totalTokens, 13);
+  });
+
+  it('countTokensと見積もりの比率で補正して削る位置を決める', async () => {
+    // countTokensは見積もりの2倍（90トークン）を返す
+    config.conversation.tokenBudgets['test-model'] = 58;
+
+    const result = await TokenBudgetService.trimToBudget(selection(90), history, SYSTEM, toMessage);
+
+    assert.deepEqual(result.kept, history.slice(2));
+    assert.equal(result.totalTokens, 58);
+  });
+
+  it('上限を超えても最新の発言は残す', async () => {
+    config.conversation.tokenBudgets['test-model'] = 1;
+
+    const single = await TokenBudgetService.trimToBudget(selection(), [history[4]], SYSTEM, toMessage);
+    const trimmed = await TokenBudgetService.trimToBudget(selection(), history, SYSTEM, toMessage);
+
+    assert.deepEqual(single.kept, [history[4]]);
+    assert.deepEqual(trimmed.kept, [history[4]]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * モデルによる検索判断（ツール呼び出し）の動作確認
+ * fakeプロバイダーは「tool:<ツール名> <クエリ>」の発言にツール呼び出しを返す
+ */
+
+import './helpers/env';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase, resetTables } from './helpers/fake-supabase';
+import WebSearchAgent, { WebSearchInput } from '../src/agents/web-search-agent';
+import BotSettingsService from '../src/services/bot-settings-service';
+import engine from '../src/graphai-engine';
+
+/**
+ * mainフローの入力を作る
+ * @param content 発言の内容
+ * @returns discordInput
+ */
+function discordInput(content: string) {
+  return {
+    messageId: `message-${Date.now()}`,
+    guildId: 'guild-1',
+    channelId: 'channel-1',
+    isBotThread: false,
+    memberPermissions: [],
+    memberRoles: [],
+    content,
+    authorId: 'user-1',
+    username: 'tester',
+    attachments: []
+  };
+}
+
+describe('ツール呼び出しによるウェブ検索', () => {
+  const originalProcess = WebSearchAgent.process;
+  let requests: WebSearchInput[] = [];
+
+  before(async () => {
+    installFakeSupabase();
+    await engine.initialize();
+    WebSearchAgent.process = async (input: WebSearchInput) => {
+      requests.push(input);
+      return {
+        query: input.query,
+        web: { results: [{ title: 'Rust', url: 'https://www.rust-lang.org/', description: 'プログラミング言語' }] }
+      };
+    };
+  });
+
+  after(() => {
+    WebSearchAgent.process = originalProcess;
+  });
+
+  beforeEach(() => {
+    resetTables();
+    requests = [];
+  });
+
+  it('モデルが要求した検索を実行し、結果をモデルに返して応答させる', async () => {
+    const result = await engine.execute('main', { discordInput: discordInput('tool:webSearchAgent rust') });
+
+    assert.deepEqual(requests, [{ query: 'rust' }]);
+    assert.match(result.discordOutput, /^\[fake\] webSearchAgent: /);
+    assert.match(result.discordOutput, /https:\/\/www\.rust-lang\.org\//);
+  });
+
+  it('tool_callingが無効な場合はモデルにツールを渡さない', async () => {
+    await BotSettingsService.updateScopedConfig({ type: 'guild', id: 'guild-1' }, { tool_calling: false });
+
+    const result = await engine.execute('main', { discordInput: discordInput('tool:webSearchAgent rust') });
+
+    assert.deepEqual(requests, []);
+    assert.match(result.discordOutput, /^\[fake\] .*tool:webSearchAgent rust/s);
+  });
+
+  it('存在しないツールの要求にはエラーを返す', async () => {
+    assert.deepEqual(await engine.executeToolCall({ id: 'unknown-0', name: 'unknownTool', args: {} }), { error: 'Unknown tool: unknownTool' });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * フロー実行トレースの動作確認
+ */
+
+import './helpers/env';
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GraphData, NodeState, TransactionLog } from 'graphai';
+import { installFakeSupabase, resetTables, tables } from './helpers/fake-supabase';
+import TraceService from '../src/services/trace-service';
+import engine from '../src/graphai-engine';
+
+// 2つのノードと、条件を満たさず実行されないノードのフロー
+const flow: GraphData = {
+  version: 0.5,
+  nodes: {
+    input: { value: 'hello' },
+    echo: { agent: 'echoAgent', inputs: { text: ':input', count: ':input.length' } },
+    skipped: { agent: 'echoAgent', if: ':echo.skip', inputs: { text: ':echo' } }
+  }
+};
+
+/**
+ * トランザクションログを作る
+ * @param values ログの内容
+ * @returns トランザクションログ
+ */
+function transactionLog(values: Partial<TransactionLog>): TransactionLog {
+  return values as TransactionLog;
+}
+
+describe('TraceService.buildTraceNodes', () => {
+  it('ノードごとの状態・名前付き入力・所要時間と実行順を記録する', () => {
+    const { path, nodes } = TraceService.buildTraceNodes(flow, [
+      transactionLog({ nodeId: 'input', state: NodeState.Injected, startTime: 1000, endTime: 1000, result: 'hello' }),
+      transactionLog({ nodeId: 'echo', state: NodeState.Executing, agentId: 'echoAgent', startTime: 1001 }),
+      transactionLog({
+        nodeId: 'echo',
+        state: NodeState.Completed,
+        agentId: 'echoAgent',
+        startTime: 1001,
+        endTime: 1011,
+        inputsData: ['hello', 5],
+        result: { text: 'hello' }
+      }),
+      transactionLog({ nodeId: 'skipped', state: NodeState.Waiting })
+    ]);
+
+    assert.deepEqual(path, ['input', 'echo']);
+    assert.deepEqual(nodes[1], {
+      nodeId: 'echo',
+      agentId: 'echoAgent',
+      state: 'completed',
+      condition: undefined,
+      startedAt: new Date(1001).toISOString(),
+      durationMs: 10,
+      inputs: { text: 'hello', count: 5 },
+      output: { text: 'hello' },
+      error: undefined
+    });
+    assert.deepEqual(nodes[2], { nodeId: 'skipped', agentId: 'echoAgent', state: 'not-reached', condition: 'if :echo.skip' });
+  });
+
+  it('長い入出力は切り詰める', () => {
+    const { nodes } = TraceService.buildTraceNodes(flow, [
+      transactionLog({ nodeId: 'echo', state: NodeState.Completed, startTime: 1, endTime: 2, result: 'あ'.repeat(600) })
+    ]);
+
+    assert.equal(nodes[1].output, `${'あ'.repeat(500)}…(600文字)`);
+  });
+});
+
+describe('フロー実行のトレースの保存', () => {
+  before(async () => {
+    installFakeSupabase();
+    await engine.initialize();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('mainフローの実行ごとにメッセージIDで取得できるトレースを保存する', async () => {
+    const result = await engine.execute('main', {
+      discordInput: {
+        messageId: 'message-trace',
+        guildId: 'guild-1',
+        channelId: 'channel-1',
+        isBotThread: false,
+        memberPermissions: [],
+        memberRoles: [],
+        content: '!help',
+        authorId: 'user-1',
+        username: 'tester',
+        attachments: []
+      }
+    });
+
+    assert.equal(tables.flow_traces.length, 1);
+
+    const [trace] = await TraceService.getTracesByMessageId('message-trace');
+    assert.equal(trace.runId, result.runId);
+    assert.equal(trace.flowName, 'main');
+    assert.equal(trace.userId, 'user-1');
+    assert.equal(trace.error, undefined);
+    assert.ok(trace.path.length > 0);
+    assert.ok(trace.nodes.some(node => node.state === 'completed'));
+    assert.ok(trace.nodes.some(node => node.state === 'not-reached'));
+  });
+});
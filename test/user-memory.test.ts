@@ -0,0 +1,127 @@
+/**
+ * ユーザーの記憶（!remember・!forget・自動的な記憶）の動作確認
+ */
+
+import './helpers/env';
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installFakeSupabase, resetTables, tables } from './helpers/fake-supabase';
+import UserMemoryService, { UserMemory } from '../src/services/user-memory-service';
+import { LlmProvider } from '../src/services/llm-providers';
+import engine from '../src/graphai-engine';
+
+/**
+ * mainフローで発言する
+ * @param content 発言の内容
+ * @returns 応答テキスト
+ */
+async function say(content: string): Promise<string> {
+  const result = await engine.execute('main', {
+    discordInput: {
+      messageId: `message-${Date.now()}`,
+      guildId: 'guild-1',
+      channelId: 'channel-1',
+      isBotThread: false,
+      memberPermissions: [],
+      memberRoles: [],
+      content,
+      authorId: 'user-1',
+      username: 'tester',
+      attachments: []
+    }
+  });
+  return result.discordOutput;
+}
+
+/**
+ * 記憶を作る
+ * @param id ID
+ * @param content 内容
+ * @returns 記憶
+ */
+function memory(id: number, content: string): UserMemory {
+  return { id, user_id: 'user-1', content, source: 'manual', created_at: '2026-01-01T00:00:00.000Z' } as UserMemory;
+}
+
+describe('!remember・!forget', () => {
+  before(async () => {
+    installFakeSupabase();
+    await engine.initialize();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('記憶した内容を一覧に表示し、番号で削除する', async () => {
+    assert.equal(await say('!remember 猫が好き'), '覚えました: 猫が好き');
+    assert.equal(await say('!remember "Rust" を勉強中'), '覚えました: "Rust" を勉強中');
+
+    const list = await say('!remember');
+    assert.match(list, /記憶していること（2\/50件）/);
+    assert.match(list, /1\. 猫が好き\n2\. "Rust" を勉強中/);
+
+    assert.equal(await say('!forget 1'), '忘れました: 猫が好き');
+    assert.deepEqual((await UserMemoryService.listMemories('user-1')).map(item => item.content), ['"Rust" を勉強中']);
+  });
+
+  it('同じ内容・長すぎる内容は記憶しない', async () => {
+    await say('!remember 猫が好き');
+
+    assert.equal(await say('!remember 猫が好き'), 'その内容はすでに記憶しています。');
+    assert.equal(await say(`!remember ${'あ'.repeat(201)}`), '記憶する内容は200文字以内で指定してください。');
+    assert.equal(tables.user_memories.length, 1);
+  });
+
+  it('!forget all ですべて削除し、不正な番号は削除しない', async () => {
+    await say('!remember 猫が好き');
+    await say('!remember 犬も好き');
+
+    assert.match(await say('!forget 3'), /^番号は 1〜2 または all で指定してください/);
+    assert.equal(await say('!forget all'), 'あなたについての記憶をすべて削除しました（2件）。');
+    assert.match(await say('!forget'), /^あなたについて記憶していることはありません/);
+  });
+});
+
+describe('UserMemoryService.selectRelevant', () => {
+  it('件数が少ない場合はすべて使う', () => {
+    const memories = [memory(1, '猫が好き'), memory(2, 'Rustを勉強中')];
+
+    assert.deepEqual(UserMemoryService.selectRelevant(memories, '天気は？'), memories);
+  });
+
+  it('件数が多い場合は質問と共通する語の多いものを登録順に選ぶ', () => {
+    const memories = Array.from({ length: 12 }, (_, index) => memory(index + 1, `メモ${index + 1}`));
+    memories[0] = memory(1, 'Rustを勉強中');
+    memories[5] = memory(6, '猫が好き');
+
+    const selected = UserMemoryService.selectRelevant(memories, 'Rustの本と猫が好きな人');
+
+    // 共通する語がないものは新しいものから選ぶため、古い2件（メモ2・メモ3）を除く
+    assert.deepEqual(selected.map(item => item.id), [1, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+});
+
+describe('発言からの自動的な記憶', () => {
+  before(() => {
+    installFakeSupabase();
+  });
+
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it('モデルが取り出した内容を自動の記憶として追加する（文字列以外・重複は除く）', async () => {
+    const provider = {
+      name: 'test-memory',
+      chat: async () => ({ text: JSON.stringify({ memories: ['猫が好き', 1, '猫が好き', '東京に住んでいる'] }), toolCalls: [] }),
+      checkUsageLimit: async () => true,
+      trackUsage: async () => true
+    } as unknown as LlmProvider;
+
+    const added = await engine.extractMemories({ provider, model: 'test-memory' }, 'user-1', '猫が好きで東京に住んでいます', []);
+
+    assert.deepEqual(added, ['猫が好き', '東京に住んでいる']);
+    assert.deepEqual(tables.user_memories.map(item => [item.content, item.source]), [['猫が好き', 'auto'], ['東京に住んでいる', 'auto']]);
+  });
+});